@@ -0,0 +1,288 @@
+/**
+ * @file Bot.ts
+ * @module Bot
+ * @description A command framework for reply bots built on the Watcher.
+ */
+
+import { Comment } from "./Comment.ts";
+import type { DiscuitClient, GetPostsOptions } from "./DiscuitClient.ts";
+import type { Post } from "./Post.ts";
+import type { WatchOptions, Watcher } from "./Watcher.ts";
+
+/**
+ * @name CommandContext
+ * @description What a command handler receives when its command is invoked.
+ */
+export type CommandContext = {
+	/** The name of the command, as registered. */
+	command: string;
+	/** The arguments after the command. Quoted arguments may contain spaces. */
+	args: string[];
+	/** The unparsed text after the command on the same line. */
+	argsText: string;
+	/** The comment or post the command was invoked in. */
+	trigger: Comment | Post;
+	/** The client of the bot. */
+	client: DiscuitClient;
+	/** Replies to the trigger with a comment. */
+	reply: (body: string) => Promise<Comment>;
+};
+
+/**
+ * @name BotCommand
+ * @description A command a bot responds to.
+ */
+export interface BotCommand {
+	/** The name of the command, eg. "remindme" for "!remindme". */
+	name: string;
+	/** Other names the command responds to. */
+	aliases?: string[];
+	/** A description of the command. */
+	description?: string;
+	/** The time in milliseconds a user must wait between two invocations. Overrides the bot's default. */
+	cooldown?: number;
+	/** The names of the communities the command may be used in. Overrides the bot's allowlist. */
+	communities?: string[];
+	/** Handles an invocation of the command. */
+	handler: (context: CommandContext) => unknown | Promise<unknown>;
+}
+
+/**
+ * @name BotOptions
+ * @description Configures a bot.
+ */
+export interface BotOptions {
+	/** The prefix of commands, eg. "!" for "!remindme". Defaults to "!". */
+	prefix?: string;
+	/** Whether commands can also be invoked by mentioning the bot, eg. "u/botname remindme". Defaults to true. */
+	mentions?: boolean;
+	/** The default time in milliseconds a user must wait between two invocations of a command. Defaults to 0. */
+	cooldown?: number;
+	/** The names of the communities commands may be used in. Commands may be used anywhere if omitted. */
+	communities?: string[];
+	/**
+	 * What the underlying watcher polls. Comments on the posts of its comment feeds and posts in its feeds are
+	 * scanned for commands. The comment feeds default to the communities the commands may be used in, or to the
+	 * "all" feed if a command may be used anywhere. Notifications are not polled unless set.
+	 */
+	watch?: WatchOptions;
+	/** Called when a handler or a poll fails. */
+	onError?: (error: unknown) => void;
+}
+
+/**
+ * @name parseArgs
+ * @description Splits an argument string by whitespace, keeping quoted arguments together.
+ * @param {string} text The argument string.
+ * @returns {string[]} The arguments.
+ */
+export function parseArgs(text: string): string[] {
+	const args: string[] = [];
+	for (const match of text.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+		args.push(match[1] ?? match[2] ?? match[3]);
+	}
+	return args;
+}
+
+/**
+ * @name escapeRegExp
+ * @description Escapes a string for use in a regular expression.
+ * @param {string} text The string to escape.
+ * @returns {string} The escaped string.
+ */
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * @name Bot
+ * @description Watches new comments and posts, parses commands in them and dispatches their handlers.
+ * @example
+ * ```ts
+ * const bot = client.bot({ prefix: "!", cooldown: 10_000 });
+ * bot.command({
+ * 	name: "echo",
+ * 	handler: ({ argsText, reply }) => reply(argsText),
+ * });
+ * await bot.start();
+ * ```
+ */
+export class Bot {
+	/** The client of the bot. */
+	private readonly client: DiscuitClient;
+	/** The options of the bot. */
+	private readonly options: BotOptions;
+	/** The registered commands, by name and alias in lowercase. */
+	private readonly commands = new Map<string, BotCommand>();
+	/** The time of the last invocation, by command name and user ID. */
+	private readonly lastInvocations = new Map<string, number>();
+	/** The watcher the bot listens to, null if the bot is not running. */
+	private watcher: Watcher | null = null;
+	/** The ID of the bot's own user. */
+	private userId: string | null = null;
+	/** The username of the bot's own user. */
+	private username: string | null = null;
+
+	/**
+	 * @description Creates a new instance of the Bot. Use `DiscuitClient.bot` instead.
+	 * @param {DiscuitClient} client The client of the bot. It must be logged in before the bot starts.
+	 * @param {BotOptions} options The options of the bot.
+	 */
+	constructor(client: DiscuitClient, options: BotOptions = {}) {
+		this.client = client;
+		this.options = options;
+	}
+
+	/**
+	 * @name command
+	 * @description Registers a command.
+	 * @param {BotCommand} command The command.
+	 * @returns {Bot} The bot, for chaining.
+	 */
+	command(command: BotCommand): this {
+		for (const name of [command.name, ...(command.aliases ?? [])]) {
+			this.commands.set(name.toLowerCase(), command);
+		}
+		return this;
+	}
+
+	/**
+	 * @name start
+	 * @description Fetches the bot's own user, resolves the communities to watch and starts watching.
+	 * Register the commands before starting the bot.
+	 * @returns {Promise<void>} A promise that resolves once the bot started.
+	 * @async
+	 */
+	async start(): Promise<void> {
+		if (this.watcher) return;
+
+		const user = await this.client.getUser();
+		this.userId = user.id;
+		this.username = user.username;
+
+		this.watcher = this.client.watch({
+			notificationInterval: false,
+			...this.options.watch,
+			commentFeeds:
+				this.options.watch?.commentFeeds ?? (await this.commentFeeds()),
+		});
+		this.watcher
+			.on("comment", (comment) => this.handle(comment))
+			.on("newPost", (post) => this.handle(post))
+			.on("error", (error) => this.options.onError?.(error));
+		await this.watcher.start();
+	}
+
+	/**
+	 * @name stop
+	 * @description Stops watching and waits for the polls in flight to finish.
+	 * @returns {Promise<void>} A promise that resolves once the bot stopped.
+	 * @async
+	 */
+	async stop(): Promise<void> {
+		await this.watcher?.stop();
+		this.watcher = null;
+	}
+
+	/**
+	 * @name commentFeeds
+	 * @description Computes the feeds whose comments the commands may be invoked in.
+	 * @returns {Promise<GetPostsOptions[]>} The community feeds, or the "all" feed if a command may be used anywhere.
+	 * @private
+	 * @async
+	 */
+	private async commentFeeds(): Promise<GetPostsOptions[]> {
+		// Community names are compared case-insensitively, like in `handle`.
+		const names = new Map<string, string>();
+		for (const command of this.commands.values()) {
+			const communities = command.communities ?? this.options.communities;
+			if (!communities) return [{ feed: "all" }];
+			for (const name of communities) names.set(name.toLowerCase(), name);
+		}
+
+		return Promise.all(
+			[...names.values()].map(async (name) => {
+				const community = await this.client.getCommunity(name, true);
+				return { feed: "community" as const, communityId: community.id };
+			}),
+		);
+	}
+
+	/**
+	 * @name handle
+	 * @description Parses the command in a comment or post and dispatches its handler.
+	 * @param {Comment | Post} trigger The comment or post.
+	 * @returns {Promise<void>} A promise that resolves once the handler finished.
+	 * @async
+	 */
+	async handle(trigger: Comment | Post): Promise<void> {
+		if (trigger.userId === this.userId || trigger.deleted) return;
+
+		const text =
+			trigger instanceof Comment
+				? trigger.body
+				: `${trigger.title}\n${trigger.body ?? ""}`;
+		const invocation = this.parse(text);
+		if (!invocation) return;
+
+		const command = this.commands.get(invocation.name.toLowerCase());
+		if (!command) return;
+
+		const communities = command.communities ?? this.options.communities;
+		if (
+			communities &&
+			!communities.some(
+				(name) => name.toLowerCase() === trigger.communityName.toLowerCase(),
+			)
+		)
+			return;
+
+		const cooldown = command.cooldown ?? this.options.cooldown ?? 0;
+		const key = `${command.name}:${trigger.userId ?? trigger.username}`;
+		const now = Date.now();
+		if (
+			now - (this.lastInvocations.get(key) ?? Number.NEGATIVE_INFINITY) <
+			cooldown
+		)
+			return;
+		this.lastInvocations.set(key, now);
+
+		await command.handler({
+			command: command.name,
+			args: parseArgs(invocation.argsText),
+			argsText: invocation.argsText,
+			trigger,
+			client: this.client,
+			reply: (body) => trigger.comment(body),
+		});
+	}
+
+	/**
+	 * @name parse
+	 * @description Finds the first line of a text that invokes a command.
+	 * @param {string} text The text.
+	 * @returns {Object | null} The name of the command and its argument string, null if no line invokes one.
+	 * @private
+	 */
+	private parse(text: string): { name: string; argsText: string } | null {
+		const prefix = escapeRegExp(this.options.prefix ?? "!");
+		const patterns = [new RegExp(`^\\s*${prefix}(\\S+)(.*)$`)];
+		if ((this.options.mentions ?? true) && this.username) {
+			const username = escapeRegExp(this.username);
+			patterns.push(
+				new RegExp(
+					`^\\s*(?:/?u/|@)${username}\\b[\\s,:]*(?:${prefix})?(\\S+)(.*)$`,
+					"i",
+				),
+			);
+		}
+
+		for (const line of text.split("\n")) {
+			for (const pattern of patterns) {
+				const match = line.match(pattern);
+				if (match) return { name: match[1], argsText: match[2].trim() };
+			}
+		}
+		return null;
+	}
+}
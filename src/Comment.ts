@@ -5,7 +5,24 @@
  */
 
 import type { DiscuitClient } from "./DiscuitClient.ts";
-import type { CommentData, TimeString, UserData } from "./types.ts";
+import { User } from "./User.ts";
+import {
+	type RelativeTimeOptions,
+	formatRelativeTime,
+	parseTime,
+	timeSince,
+} from "./time.ts";
+import type {
+	CommentData,
+	CommentFeed,
+	ListItem,
+	TimeString,
+} from "./types.ts";
+
+/** The parent of each comment in a tree built by `Comment.buildTree`. */
+const parents = new WeakMap<Comment, Comment>();
+/** The loaded replies of each comment in a tree built by `Comment.buildTree`. */
+const children = new WeakMap<Comment, Comment[]>();
 
 /**
  * @name Comment
@@ -70,7 +87,7 @@ export class Comment {
 	public readonly deletedAs?: "normal" | "admins" | "mods";
 
 	/** The User object of the author of the comment. */
-	public readonly author!: UserData;
+	public readonly author!: User;
 	/** Whether the author is muted by the authenticated user. If not authenticated, this is undefined. */
 	public readonly isAuthorMuted?: boolean;
 
@@ -96,8 +113,142 @@ export class Comment {
 		this.client = client;
 
 		Object.assign(this, data);
+
+		if (data.author) this.author = new User(data.author, client);
+	}
+
+	/**
+	 * @name createdAtDate
+	 * @description The time at which the comment was created, as a Date.
+	 * @returns {Date} The time.
+	 */
+	get createdAtDate(): Date {
+		return parseTime(this.createdAt);
+	}
+	/**
+	 * @name editedAtDate
+	 * @description The time at which the comment was last edited, as a Date.
+	 * @returns {Date | null} The time, null if the comment was not edited.
+	 */
+	get editedAtDate(): Date | null {
+		return parseTime(this.editedAt);
+	}
+	/**
+	 * @name deletedAtDate
+	 * @description The time at which the comment was deleted, as a Date.
+	 * @returns {Date | null} The time, null if the comment was not deleted.
+	 */
+	get deletedAtDate(): Date | null {
+		return parseTime(this.deletedAt);
+	}
+	/**
+	 * @name age
+	 * @description How long ago the comment was created.
+	 * @returns {number} The age in milliseconds.
+	 */
+	get age(): number {
+		return timeSince(this.createdAt);
+	}
+	/**
+	 * @name isEdited
+	 * @description Whether the comment was edited after it was created.
+	 * @returns {boolean} Whether the comment was edited.
+	 */
+	get isEdited(): boolean {
+		return this.editedAtDate !== null;
+	}
+	/**
+	 * @name relativeTime
+	 * @description Formats the time at which the comment was created relative to now, eg. "3 hours ago".
+	 * @param {RelativeTimeOptions} [options] The time to format relative to, the locale and the style.
+	 * @returns {string} The formatted time.
+	 */
+	relativeTime(options?: RelativeTimeOptions): string {
+		return formatRelativeTime(this.createdAt, options);
 	}
 
+	/**
+	 * @name buildTree
+	 * @description Links comments to their parents and replies using `parentId`. A comment whose parent is not among
+	 * the given comments is linked to its closest loaded comment in `ancestors`, or treated as a root if there is none.
+	 * @param {Comment[]} comments The comments, eg. all comments of a post.
+	 * @returns {Comment[]} The root comments, ordered by `depth` and then by their original order.
+	 * The replies of each comment keep their original order.
+	 */
+	static buildTree(comments: Comment[]): Comment[] {
+		const byId = new Map(comments.map((comment) => [comment.id, comment]));
+		const roots: Comment[] = [];
+		// The sort is stable, so comments of the same depth keep their order.
+		const sorted = [...comments].sort((a, b) => a.depth - b.depth);
+
+		for (const comment of sorted) children.set(comment, []);
+		for (const comment of sorted) {
+			const parentId = [
+				comment.parentId,
+				...[...(comment.ancestors ?? [])].reverse(),
+			].find((id) => id && byId.has(id));
+			const parent = parentId ? byId.get(parentId) : undefined;
+			if (parent) {
+				parents.set(comment, parent);
+				children.get(parent)?.push(comment);
+			} else {
+				parents.delete(comment);
+				roots.push(comment);
+			}
+		}
+
+		return roots;
+	}
+
+	/**
+	 * @name parent
+	 * @description The parent comment, if it was loaded into the same tree, otherwise null.
+	 * @returns {Comment | null} The parent comment.
+	 */
+	get parent(): Comment | null {
+		return parents.get(this) ?? null;
+	}
+
+	/**
+	 * @name children
+	 * @description The replies to the comment that were loaded into the same tree.
+	 * @returns {Comment[]} The replies, in their original order.
+	 */
+	get children(): Comment[] {
+		return children.get(this) ?? [];
+	}
+
+	/**
+	 * @name getReplies
+	 * @description Fetches a page of the replies to the comment and adds them to its children.
+	 * @param {string} [next] The next page token.
+	 * @returns {Promise<CommentFeed>} A promise that resolves with the replies.
+	 * @async
+	 */
+	async getReplies(next?: string): Promise<CommentFeed> {
+		const feed = await this.client.getComments(this.postPublicId, {
+			parentId: this.id,
+			next,
+		});
+
+		const loaded = children.get(this) ?? [];
+		for (const reply of feed.comments) {
+			if (reply.parentId !== this.id) continue;
+
+			// Replies that were loaded before are updated instead of added again.
+			const existing = loaded.find((child) => child.id === reply.id);
+			if (existing) {
+				Object.assign(existing, reply);
+				continue;
+			}
+			parents.set(reply, this);
+			children.set(reply, children.get(reply) ?? []);
+			loaded.push(reply);
+		}
+		children.set(this, loaded);
+
+		return feed;
+	}
 	/**
 	 * @name upvote
 	 * @description Upvotes a comment.
@@ -163,4 +314,90 @@ export class Comment {
 	async comment(body: string): Promise<Comment> {
 		return await this.client.comment(this.postPublicId, body, this.id);
 	}
+	/**
+	 * @name saveTo
+	 * @description Saves the comment to a list of the authenticated user.
+	 * @param {string} listName - The name of the list.
+	 * @returns {Promise<ListItem>} A promise that resolves with the new list item.
+	 * @async
+	 */
+	async saveTo(listName: string): Promise<ListItem> {
+		return this.client.addToList(listName, "comment", this.id);
+	}
+	/**
+	 * @name muteAuthor
+	 * @description Mutes the author of the comment for the authenticated user.
+	 * @returns {Promise<Comment>} A promise that resolves to the updated comment.
+	 * @async
+	 */
+	async muteAuthor(): Promise<Comment> {
+		await this.client.muteUser(this.author.id);
+		Object.assign(this, { isAuthorMuted: true });
+		return this;
+	}
+	/**
+	 * @name unmuteAuthor
+	 * @description Unmutes the author of the comment for the authenticated user.
+	 * @returns {Promise<Comment>} A promise that resolves to the updated comment.
+	 * @async
+	 */
+	async unmuteAuthor(): Promise<Comment> {
+		await this.client.unmuteUser(this.author.id);
+		Object.assign(this, { isAuthorMuted: false });
+		return this;
+	}
+	/**
+	 * @name report
+	 * @description Reports the comment to the moderators of its community.
+	 * @param {number} reasonId - The ID of the report reason, see `DiscuitClient.getReportReasons`.
+	 * @param {string} [description] - A description of the report.
+	 * @returns {Promise<void>} A promise that resolves once the report was filed.
+	 * @async
+	 */
+	async report(reasonId: number, description?: string): Promise<void> {
+		await this.client.report("comment", this.id, reasonId, description);
+	}
+	/**
+	 * @name lock
+	 * @description Locks the comment, so that no more replies can be made to it.
+	 * @param {string} lockAs - The capacity in which the comment is locked, either "mods" or "admins".
+	 * @returns {Promise<Comment>} A promise that resolves to the locked comment.
+	 * @async
+	 */
+	async lock(lockAs: "mods" | "admins"): Promise<Comment> {
+		const comment = await this.client.lockComment(
+			this.postPublicId,
+			this.id,
+			lockAs,
+		);
+		Object.assign(this, comment);
+		return this;
+	}
+	/**
+	 * @name unlock
+	 * @description Unlocks the comment.
+	 * @param {string} lockAs - The capacity in which the comment is unlocked, either "mods" or "admins".
+	 * @returns {Promise<Comment>} A promise that resolves to the unlocked comment.
+	 * @async
+	 */
+	async unlock(lockAs: "mods" | "admins"): Promise<Comment> {
+		const comment = await this.client.unlockComment(
+			this.postPublicId,
+			this.id,
+			lockAs,
+		);
+		Object.assign(this, comment);
+		return this;
+	}
+
+	/**
+	 * @name toJSON
+	 * @description Converts the comment and its author back to the data of the API, leaving out the client
+	 * and the links of a tree built by `Comment.buildTree`. `client.hydrate` turns the data into a Comment again.
+	 * @returns {CommentData} The data of the comment.
+	 */
+	toJSON(): CommentData {
+		const { client, ...data }: Comment = this;
+		return { ...data, author: this.author?.toJSON() };
+	}
 }
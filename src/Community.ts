@@ -0,0 +1,374 @@
+/**
+ * @file Community.ts
+ * @module Community
+ * @description Class representing a community.
+ */
+
+import type { DiscuitClient, GetPostsOptions } from "./DiscuitClient.ts";
+import { Image } from "./Image.ts";
+import { User } from "./User.ts";
+import {
+	type RelativeTimeOptions,
+	formatRelativeTime,
+	parseTime,
+	timeSince,
+} from "./time.ts";
+import type {
+	CommunityData,
+	CommunityRuleData,
+	CommunitySettingsData,
+	ModeratorFeed,
+	NormalFeed,
+	TimeString,
+} from "./types.ts";
+import type { ImageSource } from "./upload.ts";
+
+/**
+ * @name Community
+ * @description Represents a community.
+ * @example
+ * ```ts
+ * const community = await client.getCommunity("gaming", true);
+ * await community.join();
+ * const { posts } = await community.getPosts({ sort: "hot" });
+ * ```
+ */
+export class Community {
+	/** The Discuit client instance. */
+	private client: DiscuitClient;
+
+	/** The ID of the community. */
+	public readonly id!: string;
+	/** ID of the user who created the community. */
+	public readonly userId!: string;
+
+	/** The name of the community. */
+	public readonly name!: string;
+	/** If the community hosts NSFW content. */
+	public readonly nsfw!: boolean;
+	/** The description of the community, null if no description was set. Maximum 2000 characters. */
+	public readonly about!: string | null;
+
+	/** The number of members of the community. */
+	public readonly noMembers!: number;
+
+	/** The community icon. */
+	public readonly proPic!: Image;
+	/** The community banner image. */
+	public readonly bannerImage!: Image;
+
+	/** The time at which the community was created. */
+	public readonly createdAt!: TimeString;
+	/** If the community was deleted, the time at which it was deleted, otherwise null. */
+	public readonly deletedAt!: TimeString | null;
+
+	/** If the community is a default community, only returned if the default communities are requested. */
+	public readonly isDefault?: boolean;
+
+	/** Indicates whether the authenticated user is a member. If not authenticated, this is null. */
+	public readonly userJoined!: boolean | null;
+	/** Indicates whether the authenticated user is a moderator. If not authenticated, this is null. */
+	public readonly userMod!: boolean | null;
+
+	/** The User objects of all the moderators of the community. */
+	public readonly mods!: User[];
+	/** The list of community rules. The list is empty if there are no rules. */
+	public readonly rules!: CommunityRuleData[];
+
+	/** Only visible to moderators of the community, otherwise null. */
+	public readonly ReportDetails!: CommunityData["ReportDetails"];
+
+	/**
+	 * @name constructor
+	 * @description Creates a new instance of the Community class.
+	 * @param {CommunityData} data The data for the community.
+	 * @param {DiscuitClient} client The Discuit client instance.
+	 */
+	constructor(data: CommunityData, client: DiscuitClient) {
+		this.client = client;
+
+		Object.assign(this, data);
+
+		if (data.proPic) this.proPic = new Image(data.proPic, client);
+		if (data.bannerImage) {
+			this.bannerImage = new Image(data.bannerImage, client);
+		}
+		if (data.mods) this.mods = data.mods.map((mod) => new User(mod, client));
+	}
+
+	/**
+	 * @name createdAtDate
+	 * @description The time at which the community was created, as a Date.
+	 * @returns {Date} The time.
+	 */
+	get createdAtDate(): Date {
+		return parseTime(this.createdAt);
+	}
+	/**
+	 * @name deletedAtDate
+	 * @description The time at which the community was deleted, as a Date.
+	 * @returns {Date | null} The time, null if the community was not deleted.
+	 */
+	get deletedAtDate(): Date | null {
+		return parseTime(this.deletedAt);
+	}
+	/**
+	 * @name age
+	 * @description How long ago the community was created.
+	 * @returns {number} The age in milliseconds.
+	 */
+	get age(): number {
+		return timeSince(this.createdAt);
+	}
+	/**
+	 * @name relativeTime
+	 * @description Formats the time at which the community was created relative to now, eg. "3 hours ago".
+	 * @param {RelativeTimeOptions} [options] The time to format relative to, the locale and the style.
+	 * @returns {string} The formatted time.
+	 */
+	relativeTime(options?: RelativeTimeOptions): string {
+		return formatRelativeTime(this.createdAt, options);
+	}
+
+	/**
+	 * @name getPosts
+	 * @description Fetches the posts of the community.
+	 * @param {GetPostsOptions} [options] The feed to fetch. The feed type and community are set by the community.
+	 * @returns {Promise<NormalFeed | ModeratorFeed>} A promise that resolves with the feed.
+	 * @async
+	 */
+	async getPosts(
+		options?: Omit<GetPostsOptions, "feed" | "communityId">,
+	): Promise<NormalFeed | ModeratorFeed> {
+		return this.client.getPosts({
+			...options,
+			feed: "community",
+			communityId: this.id,
+		});
+	}
+	/**
+	 * @name join
+	 * @description Joins the community.
+	 * @returns {Promise<Community>} A promise that resolves to the joined community.
+	 * @async
+	 */
+	async join(): Promise<Community> {
+		const community = await this.client.joinCommunity(this.id);
+		Object.assign(this, community);
+		return this;
+	}
+	/**
+	 * @name leave
+	 * @description Leaves the community.
+	 * @returns {Promise<Community>} A promise that resolves to the left community.
+	 * @async
+	 */
+	async leave(): Promise<Community> {
+		const community = await this.client.leaveCommunity(this.id);
+		Object.assign(this, community);
+		return this;
+	}
+	/**
+	 * @name mute
+	 * @description Mutes the community for the authenticated user.
+	 * @returns {Promise<void>} A promise that resolves once the community was muted.
+	 * @async
+	 */
+	async mute(): Promise<void> {
+		await this.client.muteCommunity(this.id);
+	}
+	/**
+	 * @name unmute
+	 * @description Unmutes the community for the authenticated user.
+	 * @returns {Promise<void>} A promise that resolves once the community was unmuted.
+	 * @async
+	 */
+	async unmute(): Promise<void> {
+		await this.client.unmuteCommunity(this.id);
+	}
+	/**
+	 * @name refresh
+	 * @description Fetches the community again and updates this instance.
+	 * @returns {Promise<Community>} A promise that resolves to the updated community.
+	 * @async
+	 */
+	async refresh(): Promise<Community> {
+		const community = await this.client.getCommunity(this.id);
+		Object.assign(this, community);
+		return this;
+	}
+	/**
+	 * @name update
+	 * @description Updates the settings of the community. Only available to moderators and admins.
+	 * @param {CommunitySettingsData} settings The settings to change. Settings that are omitted are left unchanged.
+	 * @returns {Promise<Community>} A promise that resolves to the updated community.
+	 * @async
+	 */
+	async update(settings: Partial<CommunitySettingsData>): Promise<Community> {
+		const community = await this.client.updateCommunity(this.id, settings);
+		Object.assign(this, community);
+		return this;
+	}
+	/**
+	 * @name setProPic
+	 * @description Uploads a new profile picture for the community. Only available to moderators and admins.
+	 * @param {ImageSource} image The image to upload, a file path, Blob, byte array or stream.
+	 * @returns {Promise<Community>} A promise that resolves to the updated community.
+	 * @async
+	 */
+	async setProPic(image: ImageSource): Promise<Community> {
+		const community = await this.client.setCommunityImage(
+			this.id,
+			"proPic",
+			image,
+		);
+		Object.assign(this, community);
+		return this;
+	}
+	/**
+	 * @name setBannerImage
+	 * @description Uploads a new banner image for the community. Only available to moderators and admins.
+	 * @param {ImageSource} image The image to upload, a file path, Blob, byte array or stream.
+	 * @returns {Promise<Community>} A promise that resolves to the updated community.
+	 * @async
+	 */
+	async setBannerImage(image: ImageSource): Promise<Community> {
+		const community = await this.client.setCommunityImage(
+			this.id,
+			"bannerImage",
+			image,
+		);
+		Object.assign(this, community);
+		return this;
+	}
+	/**
+	 * @name addMod
+	 * @description Makes a user a moderator of the community. Only available to moderators and admins.
+	 * @param {string} username The username of the user.
+	 * @param {string} [modAs] The capacity in which the moderator is added, either "mods" or "admins".
+	 * @returns {Promise<Community>} A promise that resolves to the updated community.
+	 * @async
+	 */
+	async addMod(
+		username: string,
+		modAs?: "mods" | "admins",
+	): Promise<Community> {
+		const mods = await this.client.addModerator(this.id, username, modAs);
+		Object.assign(this, { mods });
+		return this;
+	}
+	/**
+	 * @name removeMod
+	 * @description Removes a user as a moderator of the community. Only available to moderators and admins.
+	 * @param {string} username The username of the moderator.
+	 * @param {string} [modAs] The capacity in which the moderator is removed, either "mods" or "admins".
+	 * @returns {Promise<Community>} A promise that resolves to the updated community.
+	 * @async
+	 */
+	async removeMod(
+		username: string,
+		modAs?: "mods" | "admins",
+	): Promise<Community> {
+		const mods = await this.client.removeModerator(this.id, username, modAs);
+		Object.assign(this, { mods });
+		return this;
+	}
+	/**
+	 * @name addRule
+	 * @description Adds a rule to the bottom of the rules of the community. Only available to moderators and admins.
+	 * @param {string} rule The title of the rule.
+	 * @param {string} [description] The description of the rule.
+	 * @returns {Promise<CommunityRuleData>} A promise that resolves with the new rule.
+	 * @async
+	 */
+	async addRule(
+		rule: string,
+		description?: string,
+	): Promise<CommunityRuleData> {
+		const created = await this.client.createRule(this.id, rule, description);
+		Object.assign(this, { rules: [...this.rules, created] });
+		return created;
+	}
+	/**
+	 * @name editRule
+	 * @description Updates a rule of the community. Only available to moderators and admins.
+	 * @param {number} ruleId The ID of the rule.
+	 * @param {Object} data The fields to change. Fields that are omitted are left unchanged.
+	 * @returns {Promise<CommunityRuleData>} A promise that resolves with the updated rule.
+	 * @async
+	 */
+	async editRule(
+		ruleId: number,
+		data: Partial<Pick<CommunityRuleData, "rule" | "description" | "zIndex">>,
+	): Promise<CommunityRuleData> {
+		const updated = await this.client.updateRule(this.id, ruleId, data);
+		Object.assign(this, {
+			rules: this.rules
+				.map((rule) => (rule.id === updated.id ? updated : rule))
+				.sort((a, b) => a.zIndex - b.zIndex),
+		});
+		return updated;
+	}
+	/**
+	 * @name reorderRules
+	 * @description Reorders the rules of the community. Only available to moderators and admins.
+	 * @param {number[]} ruleIds The IDs of the rules in their new order.
+	 * @returns {Promise<Community>} A promise that resolves to the updated community.
+	 * @async
+	 */
+	async reorderRules(ruleIds: number[]): Promise<Community> {
+		const rules = await this.client.reorderRules(this.id, ruleIds);
+		Object.assign(this, { rules });
+		return this;
+	}
+	/**
+	 * @name deleteRule
+	 * @description Deletes a rule of the community. Only available to moderators and admins.
+	 * @param {number} ruleId The ID of the rule.
+	 * @returns {Promise<Community>} A promise that resolves to the updated community.
+	 * @async
+	 */
+	async deleteRule(ruleId: number): Promise<Community> {
+		await this.client.deleteRule(this.id, ruleId);
+		Object.assign(this, {
+			rules: this.rules.filter((rule) => rule.id !== ruleId),
+		});
+		return this;
+	}
+	/**
+	 * @name ban
+	 * @description Bans a user from the community. Only available to moderators and admins.
+	 * @param {string} username The username of the user.
+	 * @returns {Promise<void>} A promise that resolves once the user was banned.
+	 * @async
+	 */
+	async ban(username: string): Promise<void> {
+		await this.client.banFromCommunity(this.id, username);
+	}
+	/**
+	 * @name unban
+	 * @description Unbans a user from the community. Only available to moderators and admins.
+	 * @param {string} username The username of the user.
+	 * @returns {Promise<void>} A promise that resolves once the user was unbanned.
+	 * @async
+	 */
+	async unban(username: string): Promise<void> {
+		await this.client.unbanFromCommunity(this.id, username);
+	}
+
+	/**
+	 * @name toJSON
+	 * @description Converts the community back to the data of the API, leaving out the client.
+	 * `client.hydrate` turns the data into a Community again.
+	 * @returns {CommunityData} The data of the community.
+	 */
+	toJSON(): CommunityData {
+		const { client, ...data }: Community = this;
+		return {
+			...data,
+			proPic: this.proPic?.toJSON(),
+			bannerImage: this.bannerImage?.toJSON(),
+			mods: this.mods?.map((mod) => mod.toJSON()),
+		};
+	}
+}
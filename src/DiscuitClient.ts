@@ -4,36 +4,233 @@
  * @description The main class for interacting with the Discuit API.
  */
 
+import { Bot, type BotOptions } from "./Bot";
 import { Comment } from "./Comment";
+import { Community } from "./Community";
+import { Image } from "./Image";
+import { List } from "./List";
 import { Post } from "./Post";
+import {
+	type RateLimitOptions,
+	RateLimiter,
+	type RateLimiterStats,
+} from "./RateLimiter";
+import { Report } from "./Report";
+import type { SessionData, SessionStore } from "./SessionStore";
+import { User } from "./User";
+import { type WatchOptions, Watcher } from "./Watcher";
+import { getCookieValue, getSetCookies } from "./cookies";
+import {
+	DiscuitApiError,
+	DiscuitNetworkError,
+	DiscuitSchemaError,
+	DiscuitUnauthorizedError,
+	createApiError,
+} from "./errors";
+import type { Interceptor, RequestContext } from "./interceptors";
+import { type IterateOptions, nextPageNumber, paginate } from "./paginate";
+import {
+	type RetryOptions,
+	type RetryOverride,
+	defaultRetryOptions,
+	isRetryable,
+	overrideRetryOptions,
+	retryDelay,
+} from "./retry";
+import {
+	type Schema,
+	type ValidationIssue,
+	type ValidationMode,
+	array,
+	union,
+	validate,
+} from "./schema";
+import {
+	commentDataSchema,
+	commentFeedResponseSchema,
+	communityDataSchema,
+	communityRuleDataSchema,
+	imageDataSchema,
+	initialResponseDataSchema,
+	listDataSchema,
+	listItemDataSchema,
+	listItemFeedResponseSchema,
+	moderatorFeedResponseSchema,
+	muteListSchema,
+	normalFeedResponseSchema,
+	notificationDataSchema,
+	notificationFeedResponseSchema,
+	postDataSchema,
+	reportDataSchema,
+	reportFeedResponseSchema,
+	userDataSchema,
+	userFeedResponseSchema,
+} from "./schemas";
 import type {
 	CommentData,
+	CommentFeed,
+	CommentFeedResponse,
+	CommunityData,
+	CommunityRuleData,
+	CommunitySettingsData,
+	ImageData,
 	InitialResponseData,
+	ListData,
+	ListItem,
+	ListItemData,
+	ListItemFeed,
+	ListItemFeedResponse,
+	ListSettingsData,
 	ModeratorFeed,
 	ModeratorFeedResponse,
+	MuteData,
+	MuteList,
 	NormalFeed,
 	NormalFeedResponse,
+	Notification,
+	NotificationData,
+	NotificationFeed,
+	NotificationFeedResponse,
 	PostData,
+	ReportData,
+	ReportFeed,
+	ReportFeedResponse,
+	ReportReasonData,
 	UserData,
+	UserFeed,
+	UserFeedResponse,
+	UserSettingsData,
 } from "./types";
+import {
+	type ImageSource,
+	type UploadImageOptions,
+	defaultMaxImageSize,
+	isImageData,
+	readImage,
+} from "./upload";
 
 /**
  * @name ApiConfig
  * @description The configuration for the Discuit API client.
  * @property {string} baseURL - The base URL for the API.
+ * @property {Partial<RetryOptions>} retry - The retry policy for failed requests.
+ * @property {RateLimitOptions} rateLimit - The client-side rate limit.
+ * @property {FetchFunction} fetch - The fetch implementation used to send requests.
+ * @property {Interceptor[]} interceptors - Interceptors that run around every request.
+ * @property {SessionStore} sessionStore - The store the session is persisted in.
+ * @property {Function} onSessionStoreError - Called when the session store fails to save the session.
+ * @property {boolean | Function} reauthenticate - Whether to re-authenticate when a session expires.
+ * @property {boolean} hideMuted - Whether to drop posts by muted users and in muted communities from feeds.
+ * @property {number} maxImageSize - The maximum size of images to upload in bytes.
+ * @property {ValidationMode} validation - Whether and how strictly responses are validated against their schemas.
+ * @property {Function} onValidationIssue - Called with the mismatches of a response in "warn" mode.
  */
 export interface ApiConfig {
 	/** The base URL for the API. */
 	baseURL?: string;
+	/** The retry policy for failed requests. Requests are not retried if omitted. */
+	retry?: Partial<RetryOptions>;
+	/** The client-side rate limit. Requests are not queued if omitted. */
+	rateLimit?: RateLimitOptions;
+	/** The fetch implementation used to send requests. Defaults to the global fetch. */
+	fetch?: FetchFunction;
+	/** Interceptors that run around every request, in order. More can be added with `use`. */
+	interceptors?: Interceptor[];
+	/** The store the session is loaded from on the first request and saved to whenever it changes. */
+	sessionStore?: SessionStore;
+	/**
+	 * Called when the session store fails to save a session that changed with a response. The response is used
+	 * regardless and the session is saved again when it changes next. Failures are ignored if omitted.
+	 */
+	onSessionStoreError?: (error: unknown) => void;
+	/**
+	 * Whether to re-authenticate and replay a request once if it fails with a 401. Pass true to log in again with the
+	 * credentials of the last `login` call, or a callback that re-authenticates the client. Off if omitted.
+	 * Requests made while a re-authentication is in progress, such as those of the callback, are not re-authenticated.
+	 */
+	reauthenticate?: boolean | ((client: DiscuitClient) => Promise<unknown>);
+	/** Whether `getPosts` drops posts by muted users and in muted communities. Can be overridden per call. Off if omitted. */
+	hideMuted?: boolean;
+	/** The maximum size of images to upload in bytes. Larger images are rejected before uploading. Defaults to 25 MiB. */
+	maxImageSize?: number;
+	/**
+	 * How responses are validated against their schemas: "strict" throws a DiscuitSchemaError if a field is missing
+	 * or has the wrong type, "warn" reports every mismatch including unknown fields to `onValidationIssue`, and
+	 * "off" skips validation. Off if omitted.
+	 */
+	validation?: ValidationMode;
+	/**
+	 * Called with the mismatches of a response in "warn" mode. Mismatches are logged with console.warn if omitted.
+	 */
+	onValidationIssue?: (
+		issues: ValidationIssue[],
+		request: { method: string; url: string; status: number },
+	) => void;
 }
 
+/**
+ * @name FetchFunction
+ * @description A fetch implementation compatible with the global fetch.
+ */
+export type FetchFunction = (
+	input: string | URL | Request,
+	init?: RequestInit,
+) => Promise<Response>;
+
 /**
  * @name RequestOptions
  * @description Additional options for the request.
  * @property {Record<string, string>} params - The query parameters for the request.
+ * @property {Schema} schema - The schema the response is validated against.
+ * @property {boolean} reauthenticate - Whether to re-authenticate if the request fails with a 401.
+ * @property {RetryOverride} retry - Overrides the retry policy of the client for the request.
+ * @property {string} responseType - How the response body is read.
  */
-interface RequestOptions extends RequestInit {
+export interface RequestOptions extends RequestInit {
 	params?: Record<string, string>;
+	/** The schema the response is validated against, depending on the `validation` option of the client. */
+	schema?: Schema<unknown>;
+	/** Set to false to not re-authenticate if the request fails with a 401, even if the client is configured to. */
+	reauthenticate?: boolean;
+	/** Overrides the retry policy of the client for the request, eg. true to retry a POST that is safe to repeat. */
+	retry?: RetryOverride;
+	/** How the response body is read: "json" to parse it, which is the default, or "blob" for files such as images. */
+	responseType?: "json" | "blob";
+}
+
+/**
+ * @name GetPostsOptions
+ * @description The options for fetching a feed of posts.
+ */
+export interface GetPostsOptions {
+	/** The type of feed to fetch. */
+	feed?: "home" | "all" | "community";
+	/** The sort order of the feed. */
+	sort?:
+		| "latest"
+		| "hot"
+		| "activity"
+		| "day"
+		| "week"
+		| "month"
+		| "year"
+		| "all";
+	/** The filter to apply to the feed. */
+	filter?: "all" | "deleted" | "locked";
+	/** The ID of the community to fetch posts from. */
+	communityId?: string;
+	/** The next page token. */
+	next?: string;
+	/** The page to fetch, starting at 1. Only used by moderator feeds, which are paginated by page number. */
+	page?: number;
+	/** The maximum number of posts to fetch. */
+	limit?: number;
+	/** Whether to fetch comments for each post. */
+	comments?: boolean;
+	/** Whether to drop posts by muted users and in muted communities. Defaults to the `hideMuted` option of the client. */
+	hideMuted?: boolean;
+	/** A signal that aborts the request. */
+	signal?: AbortSignal;
 }
 
 // noinspection JSUnusedGlobalSymbols
@@ -55,175 +252,1815 @@ class DiscuitClient {
 	private sid: string | null = null;
 	/** The base URL for the API. */
 	private readonly baseURL: string;
+	/** The retry policy for failed requests. */
+	private readonly retryOptions: RetryOptions;
+	/** The rate limiter that queues requests, null if no rate limit was configured. */
+	private readonly rateLimiter: RateLimiter | null;
+	/** The fetch implementation used to send requests. */
+	private readonly fetch: FetchFunction;
+	/** The interceptors that run around every request. */
+	private readonly interceptors: Interceptor[];
+	/** The store the session is persisted in, null if none was configured. */
+	private readonly sessionStore: SessionStore | null;
+	/** Resolves once the session was loaded from the session store. */
+	private sessionRestored: Promise<void> | null = null;
+	/** Called when the session store fails to save the session. */
+	private readonly onSessionStoreError: ((error: unknown) => void) | null;
+	/** How to re-authenticate when a request fails with a 401. */
+	private readonly reauthenticate:
+		| boolean
+		| ((client: DiscuitClient) => Promise<unknown>);
+	/** The username of the authenticated user, once known from `login`, `getUser` or `initialize`. */
+	private username: string | null = null;
+	/** The credentials of the last login, only kept if `reauthenticate` is true. */
+	private credentials: { username: string; password: string } | null = null;
+	/** Resolves once the pending re-authentication is done, null if none is pending. */
+	private reauthenticating: Promise<void> | null = null;
+	/** Whether feeds drop posts by muted users and in muted communities by default. */
+	private readonly hideMuted: boolean;
+	/** The maximum size of images to upload in bytes. */
+	private readonly maxImageSize: number;
+	/** How responses are validated against their schemas. */
+	private readonly validation: ValidationMode;
+	/** Called with the mismatches of a response in "warn" mode, null to log them. */
+	private readonly onValidationIssue: ApiConfig["onValidationIssue"] | null;
+
+	/**
+	 * @description Creates a new instance of the DiscuitClient.
+	 * @param {ApiConfig} config The configuration for the client.
+	 */
+	constructor(config: ApiConfig) {
+		this.baseURL =
+			config.baseURL?.replace(/\/?$/, "/") || "https://discuit.net/api/";
+		this.retryOptions = config.retry
+			? { ...defaultRetryOptions, ...config.retry }
+			: { ...defaultRetryOptions, maxAttempts: 1 };
+		this.rateLimiter = config.rateLimit
+			? new RateLimiter(config.rateLimit)
+			: null;
+		this.fetch = config.fetch ?? ((input, init) => fetch(input, init));
+		this.interceptors = [...(config.interceptors ?? [])];
+		this.sessionStore = config.sessionStore ?? null;
+		this.onSessionStoreError = config.onSessionStoreError ?? null;
+		this.reauthenticate = config.reauthenticate ?? false;
+		this.hideMuted = config.hideMuted ?? false;
+		this.maxImageSize = config.maxImageSize ?? defaultMaxImageSize;
+		this.validation = config.validation ?? "off";
+		this.onValidationIssue = config.onValidationIssue ?? null;
+	}
+
+	/**
+	 * @name use
+	 * @description Adds an interceptor that runs around every request, after the ones already added.
+	 * @param {Interceptor} interceptor The interceptor to add.
+	 * @returns {Function} A function that removes the interceptor again.
+	 */
+	use(interceptor: Interceptor): () => void {
+		this.interceptors.push(interceptor);
+		return () => {
+			const index = this.interceptors.indexOf(interceptor);
+			if (index !== -1) this.interceptors.splice(index, 1);
+		};
+	}
+
+	/**
+	 * @name authenticatedUsername
+	 * @description The username of the authenticated user, once known from `login`, `getUser` or `initialize`.
+	 * @returns {string | null} The username, null if it is not known.
+	 */
+	get authenticatedUsername(): string | null {
+		return this.username;
+	}
+
+	/**
+	 * @name getRateLimitStats
+	 * @description Gets the queue depth and wait times of the rate limiter.
+	 * @returns {RateLimiterStats | null} The current stats, null if no rate limit was configured.
+	 */
+	getRateLimitStats(): RateLimiterStats | null {
+		return this.rateLimiter?.stats ?? null;
+	}
+
+	/**
+	 * @name handleResponse
+	 * @description Extracts the CSRF token and SID from the response headers and stores them in the client and,
+	 * if they changed, in the session store. Failures of the session store are reported to `onSessionStoreError`.
+	 * @param {Response} response - The response received from the API request.
+	 * @returns {Promise<Response>} - The updated response.
+	 * @private
+	 */
+	private handleResponse = async (response: Response): Promise<Response> => {
+		const { sid, csrfToken } = this;
+
+		for (const cookie of getSetCookies(response.headers)) {
+			this.csrfToken = getCookieValue(cookie, "csrftoken") ?? this.csrfToken;
+			this.sid = getCookieValue(cookie, "SID") ?? this.sid;
+		}
+
+		const headerCsrfToken = response.headers.get("csrf-token");
+		if (headerCsrfToken) this.csrfToken = headerCsrfToken;
+
+		if (this.sid !== sid || this.csrfToken !== csrfToken) {
+			try {
+				await this.sessionStore?.save(this.exportSession());
+			} catch (error) {
+				this.onSessionStoreError?.(error);
+			}
+		}
+
+		return response;
+	};
+
+	/**
+	 * @name restoreSession
+	 * @description Loads the session from the session store, once. If loading fails, the next call tries again.
+	 * @returns {Promise<void>} A promise that resolves once the session was loaded.
+	 * @private
+	 */
+	private restoreSession(): Promise<void> {
+		if (!this.sessionRestored) {
+			const restored = (async () => {
+				const session = await this.sessionStore?.load();
+				if (session) {
+					this.sid = session.sid;
+					this.csrfToken = session.csrfToken;
+				}
+			})();
+			this.sessionRestored = restored;
+			restored.catch(() => {
+				if (this.sessionRestored === restored) this.sessionRestored = null;
+			});
+		}
+		return this.sessionRestored;
+	}
+
+	/**
+	 * @name exportSession
+	 * @description Exports the current session, eg. to resume it in another process with `importSession`.
+	 * @returns {SessionData} The current session.
+	 */
+	exportSession(): SessionData {
+		return { sid: this.sid, csrfToken: this.csrfToken };
+	}
+
+	/**
+	 * @name importSession
+	 * @description Replaces the current session and saves it to the session store.
+	 * @param {SessionData} session The session to use.
+	 * @returns {Promise<void>} A promise that resolves once the session was saved.
+	 * @async
+	 */
+	async importSession(session: SessionData): Promise<void> {
+		this.sessionRestored = Promise.resolve();
+		this.username = null;
+		this.sid = session.sid;
+		this.csrfToken = session.csrfToken;
+		await this.sessionStore?.save(this.exportSession());
+	}
+
+	/**
+	 * @description Makes a request to the API, running it through the interceptors.
+	 * @param {string} method - The HTTP method for the request.
+	 * @param {string} url - The URL for the request.
+	 * @param {Object} options - Additional options for the request.
+	 * @returns {Promise<T>} - A Promise that resolves to the response data of type T.
+	 * @throws {DiscuitApiError} If the request fails or the API responds with an error status.
+	 * @private
+	 * @async
+	 */
+	private async request<T>(
+		method: string,
+		url: string,
+		options: RequestOptions & { schema?: Schema<T> } = {},
+	): Promise<T> {
+		await this.restoreSession();
+
+		let context: RequestContext = {
+			method,
+			url,
+			options,
+			startedAt: Date.now(),
+		};
+		for (const interceptor of this.interceptors) {
+			context = (await interceptor.beforeRequest?.(context)) ?? context;
+		}
+
+		let data: unknown;
+		try {
+			data = await this.executeAuthenticated<unknown>(
+				context.method,
+				context.url,
+				context.options,
+			);
+		} catch (error) {
+			for (const interceptor of this.interceptors) {
+				const recovered = await interceptor.onError?.(context, error);
+				if (recovered !== undefined) return recovered as T;
+			}
+			throw error;
+		}
+
+		for (const interceptor of this.interceptors) {
+			const replaced = await interceptor.afterResponse?.(context, data);
+			if (replaced !== undefined) data = replaced;
+		}
+		return data as T;
+	}
+
+	/**
+	 * @description Makes a request to the API, re-authenticating and replaying it once if it fails with a 401.
+	 * Requests made while a re-authentication is pending are not re-authenticated, as the requests of a
+	 * re-authentication callback would otherwise wait for the callback itself.
+	 * @param {string} method - The HTTP method for the request.
+	 * @param {string} url - The URL for the request.
+	 * @param {Object} options - Additional options for the request.
+	 * @returns {Promise<T>} - A Promise that resolves to the response data of type T.
+	 * @throws {DiscuitApiError} If the request fails or the API responds with an error status.
+	 * @private
+	 * @async
+	 */
+	private async executeAuthenticated<T>(
+		method: string,
+		url: string,
+		options: RequestOptions,
+	): Promise<T> {
+		const pending = this.reauthenticating;
+		try {
+			return await this.execute<T>(method, url, options);
+		} catch (error) {
+			if (
+				!(error instanceof DiscuitUnauthorizedError) ||
+				!this.reauthenticate ||
+				options.reauthenticate === false ||
+				pending !== null ||
+				(this.reauthenticate === true && !this.credentials) ||
+				url === "_login"
+			)
+				throw error;
+
+			await this.reauthenticateOnce();
+			return await this.execute<T>(method, url, options);
+		}
+	}
+
+	/**
+	 * @name reauthenticateOnce
+	 * @description Re-authenticates the client, sharing a single attempt between concurrent callers.
+	 * @returns {Promise<void>} A promise that resolves once the client was re-authenticated.
+	 * @private
+	 */
+	private reauthenticateOnce(): Promise<void> {
+		if (!this.reauthenticating) {
+			this.reauthenticating = (async () => {
+				try {
+					if (typeof this.reauthenticate === "function") {
+						// The callback may log in as another user, which is fetched again when it is needed.
+						this.username = null;
+						await this.reauthenticate(this);
+					} else if (this.credentials) {
+						await this.login(
+							this.credentials.username,
+							this.credentials.password,
+						);
+					}
+				} finally {
+					this.reauthenticating = null;
+				}
+			})();
+		}
+		return this.reauthenticating;
+	}
+
+	/**
+	 * @description Makes a request to the API, retrying it according to the retry policy.
+	 * @param {string} method - The HTTP method for the request.
+	 * @param {string} url - The URL for the request.
+	 * @param {Object} options - Additional options for the request.
+	 * @returns {Promise<T>} - A Promise that resolves to the response data of type T.
+	 * @throws {DiscuitApiError} If the request fails or the API responds with an error status.
+	 * @private
+	 * @async
+	 */
+	private async execute<T>(
+		method: string,
+		url: string,
+		options: RequestOptions,
+	): Promise<T> {
+		const retryOptions = overrideRetryOptions(
+			this.retryOptions,
+			method,
+			options.retry,
+		);
+		for (let attempt = 1; ; attempt++) {
+			options.signal?.throwIfAborted();
+			try {
+				if (this.rateLimiter)
+					return await this.rateLimiter.schedule(() =>
+						this.send<T>(method, url, options),
+					);
+				return await this.send<T>(method, url, options);
+			} catch (error) {
+				if (
+					!(error instanceof DiscuitApiError) ||
+					attempt >= retryOptions.maxAttempts ||
+					!isRetryable(retryOptions, method, error)
+				)
+					throw error;
+
+				const delay = retryDelay(retryOptions, attempt, error);
+				retryOptions.onRetry?.(error, attempt, delay);
+				await new Promise((resolve) => setTimeout(resolve, delay));
+			}
+		}
+	}
+
+	/**
+	 * @description Makes a single attempt at a request to the API.
+	 * @param {string} method - The HTTP method for the request.
+	 * @param {string} url - The URL for the request.
+	 * @param {Object} options - Additional options for the request.
+	 * @returns {Promise<T>} - A Promise that resolves to the response data of type T.
+	 * @throws {DiscuitApiError} If the request fails or the API responds with an error status.
+	 * @private
+	 * @async
+	 */
+	private async send<T>(
+		method: string,
+		url: string,
+		options: RequestOptions,
+	): Promise<T> {
+		const { schema, reauthenticate, retry, responseType, ...init } = options;
+		const headers = new Headers(init.headers);
+
+		const fullUrl: URL = new URL(url, this.baseURL);
+		if (init.params) {
+			for (const [key, value] of Object.entries(init.params)) {
+				fullUrl.searchParams.append(key, value);
+			}
+		}
+
+		// The session is only sent to the API, never to other hosts such as those of downloaded files.
+		const sameOrigin = fullUrl.origin === new URL(this.baseURL).origin;
+		if (sameOrigin) {
+			if (method.toUpperCase() !== "GET" && this.csrfToken) {
+				headers.set("X-Csrf-Token", this.csrfToken);
+			}
+
+			headers.set("Cookie", `SID=${this.sid}; csrftoken=${this.csrfToken}`);
+		}
+
+		let response: Response;
+		try {
+			response = await this.fetch(fullUrl.toString(), {
+				method,
+				...init,
+				headers,
+			});
+		} catch (error) {
+			// An aborted request fails with the abort reason and is not retried.
+			init.signal?.throwIfAborted();
+			throw new DiscuitNetworkError(method, fullUrl.toString(), error);
+		}
+
+		if (sameOrigin) response = await this.handleResponse(response);
+
+		if (!response.ok) {
+			throw await createApiError(method, fullUrl.toString(), response);
+		}
+
+		if (responseType === "blob") return (await response.blob()) as T;
+
+		const data = await response.json();
+		if (schema)
+			this.validate(method, fullUrl.toString(), response, data, schema);
+		return data as T;
+	}
+
+	/**
+	 * @name validate
+	 * @description Validates a response against its schema according to the validation mode of the client.
+	 * @param {string} method The HTTP method of the request.
+	 * @param {string} url The full URL of the request.
+	 * @param {Response} response The response.
+	 * @param {unknown} data The parsed body of the response.
+	 * @param {Schema} schema The schema of the response.
+	 * @throws {DiscuitSchemaError} In strict mode, if a field is missing or has the wrong type.
+	 * @private
+	 */
+	private validate(
+		method: string,
+		url: string,
+		response: Response,
+		data: unknown,
+		schema: Schema<unknown>,
+	): void {
+		if (this.validation === "off") return;
+
+		const issues = validate(schema, data);
+		if (this.validation === "strict") {
+			const errors = issues.filter((issue) => issue.kind !== "unknown");
+			if (errors.length)
+				throw new DiscuitSchemaError(method, url, response.status, errors);
+		} else if (issues.length && this.onValidationIssue) {
+			this.onValidationIssue(issues, { method, url, status: response.status });
+		} else if (issues.length) {
+			console.warn(
+				`${method} ${url} returned an unexpected response:\n${issues
+					.map((issue) => `  ${issue.path}: ${issue.message}`)
+					.join("\n")}`,
+			);
+		}
+	}
+
+	/**
+	 * @name resolveURL
+	 * @description Resolves a URL returned by the API, such as the URL of an image, against the base URL.
+	 * @param {string} url The URL, eg. "/images/1.jpeg".
+	 * @returns {string} The absolute URL.
+	 */
+	resolveURL(url: string): string {
+		return new URL(url, this.baseURL).toString();
+	}
+
+	/**
+	 * @name download
+	 * @description Downloads a file served by the API, such as an image. The download goes through the rate limiter,
+	 * the retry policy and the interceptors like any other request. The session is only sent if the file is served
+	 * from the origin of the API.
+	 * @param {string} url The URL of the file, resolved against the base URL.
+	 * @returns {Promise<Blob>} A promise that resolves with the file.
+	 * @throws {DiscuitApiError} If the request fails or the server responds with an error status.
+	 * @async
+	 */
+	async download(url: string): Promise<Blob> {
+		return await this.request<Blob>("GET", url, { responseType: "blob" });
+	}
+
+	/**
+	 * @description Fetches the initial data from the API.
+	 * @return {Promise<InitialResponseData>} A promise that resolves with the initial response data.
+	 * @throws {Error} If initialization fails due to missing csrfToken or sid.
+	 * @async
+	 */
+	async initialize(): Promise<InitialResponseData> {
+		const response: InitialResponseData = await this.request(
+			"GET",
+			"_initial",
+			{ schema: initialResponseDataSchema },
+		);
+		if (!this.csrfToken || !this.sid) throw new Error("Initialization failed");
+		this.username = response.user?.username ?? null;
+		return response;
+	}
+
+	/**
+	 * @name login
+	 * @description Logs in to the API.
+	 * @param {string} username The username to log in with.
+	 * @param {string} password The password to log in with.
+	 * @returns {Promise<User>} A promise that resolves with the logged-in user.
+	 * @async
+	 */
+	async login(username: string, password: string): Promise<User> {
+		const user = await this.request("POST", "_login", {
+			schema: userDataSchema,
+			body: JSON.stringify({ username, password }),
+		});
+		if (this.reauthenticate === true) this.credentials = { username, password };
+		this.username = user.username;
+		return new User(user, this);
+	}
+
+	/**
+	 * @name logout
+	 * @description Logs out of the API and clears the session, including the one in the session store.
+	 * @returns {Promise<void>} A promise that resolves once logged out.
+	 * @async
+	 */
+	async logout(): Promise<void> {
+		await this.request("POST", "_login", { params: { action: "logout" } });
+
+		this.credentials = null;
+		this.username = null;
+		this.sessionRestored = Promise.resolve();
+		this.sid = null;
+		this.csrfToken = null;
+		await this.sessionStore?.clear();
+	}
+
+	/**
+	 * @name whoami
+	 * @description Fetches the authenticated user. An expired session is reported as such, without re-authenticating.
+	 * @returns {Promise<User | null>} A promise that resolves with the user, null if not authenticated.
+	 * @async
+	 */
+	async whoami(): Promise<User | null> {
+		try {
+			const user = await this.request("GET", "_user", {
+				schema: userDataSchema,
+				reauthenticate: false,
+			});
+			this.username = user.username;
+			return new User(user, this);
+		} catch (error) {
+			if (error instanceof DiscuitUnauthorizedError) return null;
+			throw error;
+		}
+	}
+
+	/**
+	 * @name isAuthenticated
+	 * @description Checks whether the current session is still valid, without re-authenticating.
+	 * @returns {Promise<boolean>} A promise that resolves with true if the session is valid.
+	 * @async
+	 */
+	async isAuthenticated(): Promise<boolean> {
+		return (await this.whoami()) !== null;
+	}
+
+	/**
+	 * @name loginWithSid
+	 * @description Logs in to the API using a session ID.
+	 * @param {string} [sid] The session ID to log in with. If omitted, the session from the session store is resumed.
+	 * @returns {Promise<User>} A promise that resolves with the logged-in user.
+	 * @throws {Error} If no session ID was given and none was stored.
+	 * @async
+	 */
+	async loginWithSid(sid?: string): Promise<User> {
+		if (sid) await this.importSession({ sid, csrfToken: null });
+		else await this.restoreSession();
+		if (!this.sid) throw new Error("No session to log in with.");
+
+		await this.initialize();
+		return await this.getUser();
+	}
+
+	/**
+	 * @name getUser
+	 * @description Fetches a user from the API.
+	 * @param {string} [username] The username of the user to fetch. If omitted, the authenticated user is fetched.
+	 * @returns {Promise<User>} A promise that resolves with the user.
+	 * @async
+	 */
+	async getUser(username?: string): Promise<User> {
+		const user = await this.request(
+			"GET",
+			username ? `users/${username}` : "_user",
+			{ schema: userDataSchema },
+		);
+		if (!username) this.username = user.username;
+		return new User(user, this);
+	}
+
+	/**
+	 * @name getUserFeed
+	 * @description Fetches the posts and comments on the profile of a user.
+	 * @param {string} username The username of the user.
+	 * @returns {Promise<UserFeed>} A promise that resolves with the feed.
+	 * @async
+	 */
+	async getUserFeed(
+		username: string,
+		options?: {
+			/** Only fetch posts or comments. */
+			filter?: "posts" | "comments";
+			/** The next page token. */
+			next?: string;
+			/** The maximum number of items to fetch. */
+			limit?: number;
+			/** A signal that aborts the request. */
+			signal?: AbortSignal;
+		},
+	): Promise<UserFeed> {
+		const params: Record<string, string> = {};
+		if (options?.filter) params.filter = options.filter;
+		if (options?.next) params.next = options.next;
+		if (options?.limit) params.limit = options.limit.toString();
+
+		const response = await this.request("GET", `users/${username}/feed`, {
+			schema: userFeedResponseSchema,
+			params,
+			signal: options?.signal,
+		});
+
+		return {
+			items: response.items.map((item) =>
+				item.type === "post"
+					? new Post(item.item as PostData, this)
+					: new Comment(item.item as CommentData, this),
+			),
+			next: response.next,
+		};
+	}
+
+	/**
+	 * @name iterateUserFeed
+	 * @description Walks the posts and comments on the profile of a user.
+	 * @param {string} username The username of the user.
+	 * @returns {AsyncGenerator<Post | Comment>} The posts and comments.
+	 */
+	iterateUserFeed(
+		username: string,
+		options?: {
+			/** Only walk posts or comments. */
+			filter?: "posts" | "comments";
+			/** The number of items to fetch per page. */
+			limit?: number;
+		} & IterateOptions,
+	): AsyncGenerator<Post | Comment, void, undefined> {
+		return paginate<Post | Comment, string>(async (next) => {
+			const feed = await this.getUserFeed(username, { ...options, next });
+			return { items: feed.items, next: feed.next };
+		}, options);
+	}
+
+	/**
+	 * @name listMutes
+	 * @description Fetches the users and communities muted by the authenticated user.
+	 * @returns {Promise<MuteList>} A promise that resolves with the muted users and communities.
+	 * @async
+	 */
+	async listMutes(): Promise<MuteList> {
+		const mutes = await this.request("GET", "mutes", {
+			schema: muteListSchema,
+		});
+		return {
+			userMutes: mutes.userMutes ?? [],
+			communityMutes: mutes.communityMutes ?? [],
+		};
+	}
+
+	/**
+	 * @name muteUser
+	 * @description Mutes a user for the authenticated user.
+	 * @param {string} userId The ID of the user.
+	 * @returns {Promise<void>} A promise that resolves once the user was muted.
+	 * @async
+	 */
+	async muteUser(userId: string): Promise<void> {
+		await this.request("POST", "mutes", {
+			body: JSON.stringify({ userId }),
+		});
+	}
+
+	/**
+	 * @name muteCommunity
+	 * @description Mutes a community for the authenticated user.
+	 * @param {string} communityId The ID of the community.
+	 * @returns {Promise<void>} A promise that resolves once the community was muted.
+	 * @async
+	 */
+	async muteCommunity(communityId: string): Promise<void> {
+		await this.request("POST", "mutes", {
+			body: JSON.stringify({ communityId }),
+		});
+	}
+
+	/**
+	 * @name unmute
+	 * @description Removes a mute of the authenticated user.
+	 * @param {MuteData | string} mute The mute or its ID, see `listMutes`.
+	 * @returns {Promise<void>} A promise that resolves once the mute was removed.
+	 * @async
+	 */
+	async unmute(mute: MuteData | string): Promise<void> {
+		await this.request(
+			"DELETE",
+			`mutes/${typeof mute === "string" ? mute : mute.id}`,
+		);
+	}
+
+	/**
+	 * @name unmuteUser
+	 * @description Unmutes a user for the authenticated user.
+	 * @param {string} userId The ID of the user.
+	 * @returns {Promise<void>} A promise that resolves once the user was unmuted.
+	 * @async
+	 */
+	async unmuteUser(userId: string): Promise<void> {
+		const { userMutes } = await this.listMutes();
+		const mute = userMutes.find((mute) => mute.mutedUserId === userId);
+		if (mute) await this.unmute(mute);
+	}
+
+	/**
+	 * @name unmuteCommunity
+	 * @description Unmutes a community for the authenticated user.
+	 * @param {string} communityId The ID of the community.
+	 * @returns {Promise<void>} A promise that resolves once the community was unmuted.
+	 * @async
+	 */
+	async unmuteCommunity(communityId: string): Promise<void> {
+		const { communityMutes } = await this.listMutes();
+		const mute = communityMutes.find(
+			(mute) => mute.mutedCommunityId === communityId,
+		);
+		if (mute) await this.unmute(mute);
+	}
+
+	/**
+	 * @name clearMutes
+	 * @description Removes all mutes of the authenticated user.
+	 * @param {string} [type] Only remove the mutes of users or of communities. Removes both if omitted.
+	 * @returns {Promise<void>} A promise that resolves once the mutes were removed.
+	 * @async
+	 */
+	async clearMutes(type?: MuteData["type"]): Promise<void> {
+		for (const muteType of type ? [type] : (["user", "community"] as const)) {
+			await this.request("DELETE", "mutes", { params: { type: muteType } });
+		}
+	}
+
+	/**
+	 * @name banUser
+	 * @description Bans a user site-wide. Only available to admins.
+	 * @param {string} username The username of the user.
+	 * @returns {Promise<User>} A promise that resolves with the banned user.
+	 * @async
+	 */
+	async banUser(username: string): Promise<User> {
+		const user: UserData = await this.request("POST", "_admin", {
+			schema: userDataSchema,
+			body: JSON.stringify({ action: "ban_user", username }),
+		});
+
+		return new User(user, this);
+	}
+
+	/**
+	 * @name unbanUser
+	 * @description Unbans a user site-wide. Only available to admins.
+	 * @param {string} username The username of the user.
+	 * @returns {Promise<User>} A promise that resolves with the unbanned user.
+	 * @async
+	 */
+	async unbanUser(username: string): Promise<User> {
+		const user: UserData = await this.request("POST", "_admin", {
+			schema: userDataSchema,
+			body: JSON.stringify({ action: "unban_user", username }),
+		});
+
+		return new User(user, this);
+	}
+
+	/**
+	 * @name signup
+	 * @description Creates a new account and logs in to it.
+	 * @param {string} username The username of the account. Minimum 3 characters, maximum 21 characters.
+	 * @param {string} password The password of the account.
+	 * @param {string} [email] The email address of the account.
+	 * @param {string} [captchaToken] The captcha token, if the instance requires one.
+	 * @returns {Promise<User>} A promise that resolves with the new user.
+	 * @async
+	 */
+	async signup(
+		username: string,
+		password: string,
+		email?: string,
+		captchaToken?: string,
+	): Promise<User> {
+		const user: UserData = await this.request("POST", "_signup", {
+			schema: userDataSchema,
+			body: JSON.stringify({ username, password, email, captchaToken }),
+		});
+		if (this.reauthenticate === true) this.credentials = { username, password };
+		this.username = user.username;
+
+		return new User(user, this);
+	}
+
+	/**
+	 * @name updateSettings
+	 * @description Updates the profile and preferences of the authenticated user.
+	 * @param {UserSettingsData} settings The settings to change. Settings that are omitted are left unchanged.
+	 * @returns {Promise<User>} A promise that resolves with the updated user.
+	 * @async
+	 */
+	async updateSettings(settings: Partial<UserSettingsData>): Promise<User> {
+		const user: UserData = await this.request("POST", "_settings", {
+			schema: userDataSchema,
+			params: { action: "updateProfile" },
+			body: JSON.stringify(settings),
+		});
+
+		return new User(user, this);
+	}
+
+	/**
+	 * @name setProPic
+	 * @description Uploads a new profile picture for the authenticated user.
+	 * @param {ImageSource} image The image to upload, a file path, Blob, byte array or stream.
+	 * @returns {Promise<User>} A promise that resolves with the updated user.
+	 * @async
+	 */
+	async setProPic(image: ImageSource): Promise<User> {
+		const body = new FormData();
+		body.append("image", await this.readImage(image));
+
+		const user: UserData = await this.request("POST", "_settings", {
+			schema: userDataSchema,
+			params: { action: "updateProPic" },
+			body,
+		});
+
+		return new User(user, this);
+	}
+
+	/**
+	 * @name deleteProPic
+	 * @description Removes the profile picture of the authenticated user.
+	 * @returns {Promise<User>} A promise that resolves with the updated user.
+	 * @async
+	 */
+	async deleteProPic(): Promise<User> {
+		const user: UserData = await this.request("POST", "_settings", {
+			schema: userDataSchema,
+			params: { action: "deleteProPic" },
+		});
+
+		return new User(user, this);
+	}
+
+	/**
+	 * @name changePassword
+	 * @description Changes the password of the authenticated user.
+	 * @param {string} password The current password.
+	 * @param {string} newPassword The new password.
+	 * @returns {Promise<void>} A promise that resolves once the password was changed.
+	 * @async
+	 */
+	async changePassword(password: string, newPassword: string): Promise<void> {
+		await this.request("POST", "_settings", {
+			params: { action: "changePassword" },
+			body: JSON.stringify({ password, newPassword }),
+		});
+		if (this.credentials) this.credentials.password = newPassword;
+	}
+
+	/**
+	 * @name deleteAccount
+	 * @description Deletes the account of the authenticated user and clears the session. This cannot be undone.
+	 * @param {string} password The password of the account.
+	 * @returns {Promise<User>} A promise that resolves with the deleted user.
+	 * @async
+	 */
+	async deleteAccount(password: string): Promise<User> {
+		const { username } = await this.getUser();
+		const user: UserData = await this.request("DELETE", `users/${username}`, {
+			schema: userDataSchema,
+			body: JSON.stringify({ password }),
+		});
+
+		this.credentials = null;
+		this.username = null;
+		this.sid = null;
+		this.csrfToken = null;
+		await this.sessionStore?.clear();
+
+		return new User(user, this);
+	}
+
+	/**
+	 * @name getCommunities
+	 * @description Fetches a list of communities.
+	 * @returns {Promise<Community[]>} A promise that resolves with the communities.
+	 * @async
+	 */
+	async getCommunities(options?: {
+		/** Whether to fetch all communities or only the default ones. */
+		set?: "all" | "default";
+		/** Only fetch communities whose name matches this query. */
+		search?: string;
+	}): Promise<Community[]> {
+		const params: Record<string, string> = {};
+		if (options?.set) params.set = options.set;
+		if (options?.search) params.q = options.search;
+
+		const communities = await this.request("GET", "communities", {
+			schema: array(communityDataSchema),
+			params,
+		});
+
+		return communities.map((community) => new Community(community, this));
+	}
+
+	/**
+	 * @name getCommunity
+	 * @description Fetches a community by its ID or name.
+	 * @param {string} id The ID of the community, or its name if `byName` is true.
+	 * @param {boolean} [byName] Whether `id` is the name of the community.
+	 * @returns {Promise<Community>} A promise that resolves with the community.
+	 * @async
+	 */
+	async getCommunity(id: string, byName?: boolean): Promise<Community> {
+		const community = await this.request("GET", `communities/${id}`, {
+			schema: communityDataSchema,
+			params: byName ? { byName: "true" } : undefined,
+		});
+
+		return new Community(community, this);
+	}
+
+	/**
+	 * @name joinCommunity
+	 * @description Joins a community.
+	 * @param {string} id The ID of the community.
+	 * @returns {Promise<Community>} A promise that resolves with the joined community.
+	 * @async
+	 */
+	async joinCommunity(id: string): Promise<Community> {
+		const community: CommunityData = await this.request(
+			"POST",
+			"_joinCommunity",
+			{
+				schema: communityDataSchema,
+				body: JSON.stringify({ communityId: id, leave: false }),
+			},
+		);
+
+		return new Community(community, this);
+	}
+
+	/**
+	 * @name leaveCommunity
+	 * @description Leaves a community.
+	 * @param {string} id The ID of the community.
+	 * @returns {Promise<Community>} A promise that resolves with the left community.
+	 * @async
+	 */
+	async leaveCommunity(id: string): Promise<Community> {
+		const community: CommunityData = await this.request(
+			"POST",
+			"_joinCommunity",
+			{
+				schema: communityDataSchema,
+				body: JSON.stringify({ communityId: id, leave: true }),
+			},
+		);
+
+		return new Community(community, this);
+	}
+
+	/**
+	 * @name createCommunity
+	 * @description Creates a new community, with the authenticated user as its moderator.
+	 * @param {string} name The name of the community.
+	 * @param {string} [about] The description of the community.
+	 * @returns {Promise<Community>} A promise that resolves with the new community.
+	 * @async
+	 */
+	async createCommunity(name: string, about?: string): Promise<Community> {
+		const community: CommunityData = await this.request("POST", "communities", {
+			schema: communityDataSchema,
+			body: JSON.stringify({ name, about }),
+		});
+
+		return new Community(community, this);
+	}
+
+	/**
+	 * @name updateCommunity
+	 * @description Updates the settings of a community. Only available to moderators and admins.
+	 * @param {string} id The ID of the community.
+	 * @param {CommunitySettingsData} settings The settings to change. Settings that are omitted are left unchanged.
+	 * @returns {Promise<Community>} A promise that resolves with the updated community.
+	 * @async
+	 */
+	async updateCommunity(
+		id: string,
+		settings: Partial<CommunitySettingsData>,
+	): Promise<Community> {
+		const community: CommunityData = await this.request(
+			"PUT",
+			`communities/${id}`,
+			{ schema: communityDataSchema, body: JSON.stringify(settings) },
+		);
+
+		return new Community(community, this);
+	}
+
+	/**
+	 * @name setCommunityImage
+	 * @description Uploads the profile picture or banner image of a community. Only available to moderators and admins.
+	 * @param {string} id The ID of the community.
+	 * @param {string} type Which image to set, either "proPic" or "bannerImage".
+	 * @param {ImageSource} image The image to upload, a file path, Blob, byte array or stream.
+	 * @returns {Promise<Community>} A promise that resolves with the updated community.
+	 * @async
+	 */
+	async setCommunityImage(
+		id: string,
+		type: "proPic" | "bannerImage",
+		image: ImageSource,
+	): Promise<Community> {
+		const body = new FormData();
+		body.append("image", await this.readImage(image));
+
+		await this.request("POST", `communities/${id}/${type}`, { body });
+		return await this.getCommunity(id);
+	}
+
+	/**
+	 * @name deleteCommunityImage
+	 * @description Removes the profile picture or banner image of a community. Only available to moderators and admins.
+	 * @param {string} id The ID of the community.
+	 * @param {string} type Which image to remove, either "proPic" or "bannerImage".
+	 * @returns {Promise<Community>} A promise that resolves with the updated community.
+	 * @async
+	 */
+	async deleteCommunityImage(
+		id: string,
+		type: "proPic" | "bannerImage",
+	): Promise<Community> {
+		await this.request("DELETE", `communities/${id}/${type}`);
+		return await this.getCommunity(id);
+	}
+
+	/**
+	 * @name getModerators
+	 * @description Fetches the moderators of a community.
+	 * @param {string} id The ID of the community.
+	 * @returns {Promise<User[]>} A promise that resolves with the moderators.
+	 * @async
+	 */
+	async getModerators(id: string): Promise<User[]> {
+		const mods = await this.request("GET", `communities/${id}/mods`, {
+			schema: array(userDataSchema),
+		});
+		return mods.map((mod) => new User(mod, this));
+	}
+
+	/**
+	 * @name addModerator
+	 * @description Makes a user a moderator of a community. Only available to moderators and admins.
+	 * @param {string} id The ID of the community.
+	 * @param {string} username The username of the user.
+	 * @param {string} [modAs] The capacity in which the moderator is added, either "mods" or "admins".
+	 * @returns {Promise<User[]>} A promise that resolves with the moderators of the community.
+	 * @async
+	 */
+	async addModerator(
+		id: string,
+		username: string,
+		modAs?: "mods" | "admins",
+	): Promise<User[]> {
+		const mods: UserData[] = await this.request(
+			"POST",
+			`communities/${id}/mods`,
+			{
+				schema: array(userDataSchema),
+				params: { modAs: modAs || "mods" },
+				body: JSON.stringify({ username }),
+			},
+		);
+
+		return mods.map((mod) => new User(mod, this));
+	}
+
+	/**
+	 * @name removeModerator
+	 * @description Removes a user as a moderator of a community. Only available to moderators and admins.
+	 * @param {string} id The ID of the community.
+	 * @param {string} username The username of the moderator.
+	 * @param {string} [modAs] The capacity in which the moderator is removed, either "mods" or "admins".
+	 * @returns {Promise<User[]>} A promise that resolves with the remaining moderators of the community.
+	 * @async
+	 */
+	async removeModerator(
+		id: string,
+		username: string,
+		modAs?: "mods" | "admins",
+	): Promise<User[]> {
+		const mods: UserData[] = await this.request(
+			"DELETE",
+			`communities/${id}/mods/${username}`,
+			{ schema: array(userDataSchema), params: { modAs: modAs || "mods" } },
+		);
+
+		return mods.map((mod) => new User(mod, this));
+	}
+
+	/**
+	 * @name getRules
+	 * @description Fetches the rules of a community, ordered by their index.
+	 * @param {string} id The ID of the community.
+	 * @returns {Promise<CommunityRuleData[]>} A promise that resolves with the rules.
+	 * @async
+	 */
+	async getRules(id: string): Promise<CommunityRuleData[]> {
+		return await this.request("GET", `communities/${id}/rules`, {
+			schema: array(communityRuleDataSchema),
+		});
+	}
+
+	/**
+	 * @name createRule
+	 * @description Adds a rule to the bottom of the rules of a community. Only available to moderators and admins.
+	 * @param {string} id The ID of the community.
+	 * @param {string} rule The title of the rule.
+	 * @param {string} [description] The description of the rule.
+	 * @returns {Promise<CommunityRuleData>} A promise that resolves with the new rule.
+	 * @async
+	 */
+	async createRule(
+		id: string,
+		rule: string,
+		description?: string,
+	): Promise<CommunityRuleData> {
+		return await this.request("POST", `communities/${id}/rules`, {
+			schema: communityRuleDataSchema,
+			body: JSON.stringify({ rule, description: description || null }),
+		});
+	}
+
+	/**
+	 * @name updateRule
+	 * @description Updates a rule of a community. Only available to moderators and admins.
+	 * @param {string} id The ID of the community.
+	 * @param {number} ruleId The ID of the rule.
+	 * @param {Object} data The fields to change. Fields that are omitted are left unchanged.
+	 * @returns {Promise<CommunityRuleData>} A promise that resolves with the updated rule.
+	 * @async
+	 */
+	async updateRule(
+		id: string,
+		ruleId: number,
+		data: Partial<Pick<CommunityRuleData, "rule" | "description" | "zIndex">>,
+	): Promise<CommunityRuleData> {
+		return await this.request("PUT", `communities/${id}/rules/${ruleId}`, {
+			schema: communityRuleDataSchema,
+			body: JSON.stringify(data),
+		});
+	}
+
+	/**
+	 * @name reorderRules
+	 * @description Reorders the rules of a community by giving each rule the index of its position in `ruleIds`.
+	 * Only available to moderators and admins.
+	 * @param {string} id The ID of the community.
+	 * @param {number[]} ruleIds The IDs of the rules in their new order.
+	 * @returns {Promise<CommunityRuleData[]>} A promise that resolves with the reordered rules.
+	 * @async
+	 */
+	async reorderRules(
+		id: string,
+		ruleIds: number[],
+	): Promise<CommunityRuleData[]> {
+		const rules: CommunityRuleData[] = [];
+		for (const [zIndex, ruleId] of ruleIds.entries()) {
+			rules.push(await this.updateRule(id, ruleId, { zIndex }));
+		}
+		return rules;
+	}
+
+	/**
+	 * @name deleteRule
+	 * @description Deletes a rule of a community. Only available to moderators and admins.
+	 * @param {string} id The ID of the community.
+	 * @param {number} ruleId The ID of the rule.
+	 * @returns {Promise<void>} A promise that resolves once the rule was deleted.
+	 * @async
+	 */
+	async deleteRule(id: string, ruleId: number): Promise<void> {
+		await this.request("DELETE", `communities/${id}/rules/${ruleId}`);
+	}
+
+	/**
+	 * @name banFromCommunity
+	 * @description Bans a user from a community. Only available to moderators and admins.
+	 * @param {string} id The ID of the community.
+	 * @param {string} username The username of the user.
+	 * @returns {Promise<void>} A promise that resolves once the user was banned.
+	 * @async
+	 */
+	async banFromCommunity(id: string, username: string): Promise<void> {
+		await this.request("POST", `communities/${id}/banned`, {
+			body: JSON.stringify({ username }),
+		});
+	}
+
+	/**
+	 * @name unbanFromCommunity
+	 * @description Unbans a user from a community. Only available to moderators and admins.
+	 * @param {string} id The ID of the community.
+	 * @param {string} username The username of the user.
+	 * @returns {Promise<void>} A promise that resolves once the user was unbanned.
+	 * @async
+	 */
+	async unbanFromCommunity(id: string, username: string): Promise<void> {
+		await this.request("DELETE", `communities/${id}/banned`, {
+			body: JSON.stringify({ username }),
+		});
+	}
+
+	/**
+	 * @name getReportReasons
+	 * @description Fetches the reasons a post or a comment can be reported for.
+	 * @returns {Promise<ReportReasonData[]>} A promise that resolves with the report reasons.
+	 * @async
+	 */
+	async getReportReasons(): Promise<ReportReasonData[]> {
+		const { reportReasons } = await this.request("GET", "_initial", {
+			schema: initialResponseDataSchema,
+		});
+		return reportReasons;
+	}
+
+	/**
+	 * @name report
+	 * @description Reports a post or a comment to the moderators of its community.
+	 * @param {string} type Whether a post or a comment is reported.
+	 * @param {string} targetId The ID of the post or comment.
+	 * @param {number} reasonId The ID of the report reason, see `getReportReasons`.
+	 * @param {string} [description] A description of the report.
+	 * @returns {Promise<void>} A promise that resolves once the report was filed.
+	 * @async
+	 */
+	async report(
+		type: "post" | "comment",
+		targetId: string,
+		reasonId: number,
+		description?: string,
+	): Promise<void> {
+		await this.request("POST", "_report", {
+			body: JSON.stringify({
+				type,
+				targetId,
+				reason: reasonId,
+				description: description || null,
+			}),
+		});
+	}
+
+	/**
+	 * @name getReports
+	 * @description Fetches a page of the report queue of a community. Only available to moderators and admins.
+	 * @param {string} communityId The ID of the community.
+	 * @returns {Promise<ReportFeed>} A promise that resolves with the reports.
+	 * @async
+	 */
+	async getReports(
+		communityId: string,
+		options?: {
+			/** Only fetch reports against posts or comments. */
+			filter?: "all" | "posts" | "comments";
+			/** The page to fetch, starting at 1. */
+			page?: number;
+			/** The maximum number of reports to fetch. */
+			limit?: number;
+			/** A signal that aborts the request. */
+			signal?: AbortSignal;
+		},
+	): Promise<ReportFeed> {
+		const params: Record<string, string> = {};
+		if (options?.filter) params.filter = options.filter;
+		if (options?.page) params.page = options.page.toString();
+		if (options?.limit) params.limit = options.limit.toString();
+
+		const response = await this.request(
+			"GET",
+			`communities/${communityId}/reports`,
+			{ schema: reportFeedResponseSchema, params, signal: options?.signal },
+		);
+
+		return {
+			...response,
+			reports: response.reports.map((report) => new Report(report, this)),
+		};
+	}
+
+	/**
+	 * @name iterateReports
+	 * @description Walks the report queue of a community. Only available to moderators and admins.
+	 * @param {string} communityId The ID of the community.
+	 * @returns {AsyncGenerator<Report>} The reports.
+	 */
+	iterateReports(
+		communityId: string,
+		options?: {
+			/** Only walk reports against posts or comments. */
+			filter?: "all" | "posts" | "comments";
+			/** The number of reports to fetch per page. */
+			limit?: number;
+		} & IterateOptions,
+	): AsyncGenerator<Report, void, undefined> {
+		return paginate<Report, number>(async (page = 1) => {
+			const feed = await this.getReports(communityId, { ...options, page });
+			return {
+				items: feed.reports,
+				next: feed.reports.length < feed.limit ? null : page + 1,
+			};
+		}, options);
+	}
+
+	/**
+	 * @name dealWithReport
+	 * @description Marks a report as dealt with. Only available to moderators and admins.
+	 * @param {string} communityId The ID of the community.
+	 * @param {number} reportId The ID of the report.
+	 * @param {string} [actionTaken] A description of the action taken.
+	 * @returns {Promise<Report>} A promise that resolves with the updated report.
+	 * @async
+	 */
+	async dealWithReport(
+		communityId: string,
+		reportId: number,
+		actionTaken?: string,
+	): Promise<Report> {
+		const report: ReportData = await this.request(
+			"DELETE",
+			`communities/${communityId}/reports/${reportId}`,
+			{
+				schema: reportDataSchema,
+				params: actionTaken ? { actionTaken } : undefined,
+			},
+		);
+
+		return new Report(report, this);
+	}
+
+	/**
+	 * @name createNotificationInstance
+	 * @description Replaces the post and comment data in a notification with Post and Comment instances.
+	 * @param {NotificationData} data The notification data.
+	 * @returns {Notification} The notification.
+	 */
+	createNotificationInstance(data: NotificationData): Notification {
+		const notif: Record<string, unknown> = { ...data.notif };
+		if (data.type === "new_votes" && data.notif.targetType === "comment") {
+			const comment = data.notif.comment ?? data.notif.post;
+			notif.post = new Comment(comment as CommentData, this);
+			notif.comment = notif.post;
+		} else {
+			if ("post" in data.notif && data.notif.post)
+				notif.post = new Post(data.notif.post as PostData, this);
+			if ("comment" in data.notif && data.notif.comment)
+				notif.comment = new Comment(data.notif.comment, this);
+		}
+
+		return { ...data, notif } as Notification;
+	}
+
+	/**
+	 * @name getNotifications
+	 * @description Fetches the notifications of the authenticated user, newest first.
+	 * @returns {Promise<NotificationFeed>} A promise that resolves with the notifications.
+	 * @async
+	 */
+	async getNotifications(options?: {
+		/** The next page token. */
+		next?: string;
+		/** A signal that aborts the request. */
+		signal?: AbortSignal;
+	}): Promise<NotificationFeed> {
+		const params: Record<string, string> = {};
+		if (options?.next) params.next = options.next;
+
+		const response = await this.request("GET", "notifications", {
+			schema: notificationFeedResponseSchema,
+			params,
+			signal: options?.signal,
+		});
+
+		return {
+			...response,
+			items: (response.items ?? []).map((item) =>
+				this.createNotificationInstance(item),
+			),
+		};
+	}
+
+	/**
+	 * @name iterateNotifications
+	 * @description Walks the notifications of the authenticated user, newest first.
+	 * @param {IterateOptions} [options] The maximum number of notifications and an abort signal.
+	 * @returns {AsyncGenerator<Notification>} The notifications.
+	 */
+	iterateNotifications(
+		options?: IterateOptions,
+	): AsyncGenerator<Notification, void, undefined> {
+		return paginate<Notification, string>(async (next) => {
+			const feed = await this.getNotifications({
+				next,
+				signal: options?.signal,
+			});
+			return { items: feed.items, next: feed.next };
+		}, options);
+	}
+
+	/**
+	 * @name markNotificationSeen
+	 * @description Marks a notification as seen.
+	 * @param {number} id The ID of the notification.
+	 * @returns {Promise<Notification>} A promise that resolves with the updated notification.
+	 * @async
+	 */
+	async markNotificationSeen(id: number): Promise<Notification> {
+		const notification: NotificationData = await this.request(
+			"PUT",
+			`notifications/${id}`,
+			{
+				schema: notificationDataSchema,
+				params: { action: "markAsSeen", seen: "true" },
+			},
+		);
+
+		return this.createNotificationInstance(notification);
+	}
+
+	/**
+	 * @name markAllSeen
+	 * @description Marks all notifications of the authenticated user as seen.
+	 * @returns {Promise<void>} A promise that resolves once the notifications were marked as seen.
+	 * @async
+	 */
+	async markAllSeen(): Promise<void> {
+		await this.request("POST", "notifications", {
+			params: { action: "markAllAsSeen" },
+		});
+	}
+
+	/**
+	 * @name deleteNotification
+	 * @description Deletes a notification.
+	 * @param {number} id The ID of the notification.
+	 * @returns {Promise<void>} A promise that resolves once the notification was deleted.
+	 * @async
+	 */
+	async deleteNotification(id: number): Promise<void> {
+		await this.request("DELETE", `notifications/${id}`);
+	}
+
+	/**
+	 * @name deleteAll
+	 * @description Deletes all notifications of the authenticated user.
+	 * @returns {Promise<void>} A promise that resolves once the notifications were deleted.
+	 * @async
+	 */
+	async deleteAll(): Promise<void> {
+		await this.request("POST", "notifications", {
+			params: { action: "deleteAll" },
+		});
+	}
+
+	/**
+	 * @name listsPath
+	 * @description Builds the path of the lists of a user.
+	 * @param {string} [username] The username of the user. Defaults to the authenticated user, which is only
+	 * fetched if it is not known yet.
+	 * @returns {Promise<string>} A promise that resolves with the path.
+	 * @private
+	 * @async
+	 */
+	private async listsPath(username?: string): Promise<string> {
+		return `users/${username ?? this.username ?? (await this.getUser()).username}/lists`;
+	}
+
+	/**
+	 * @name createListItemInstance
+	 * @description Creates a list item with its post or comment as a Post or Comment instance.
+	 * @param {ListItemData} data The list item data.
+	 * @returns {ListItem} The list item.
+	 * @private
+	 */
+	private createListItemInstance(data: ListItemData): ListItem {
+		return {
+			...data,
+			targetItem:
+				data.targetType === "post"
+					? new Post(data.targetItem as PostData, this)
+					: new Comment(data.targetItem as CommentData, this),
+		};
+	}
+
+	/**
+	 * @name getLists
+	 * @description Fetches the lists of a user. Private lists are only returned to their owner.
+	 * @param {string} [username] The username of the user. Defaults to the authenticated user.
+	 * @returns {Promise<List[]>} A promise that resolves with the lists.
+	 * @async
+	 */
+	async getLists(username?: string): Promise<List[]> {
+		const lists = await this.request("GET", await this.listsPath(username), {
+			schema: array(listDataSchema),
+		});
+		return lists.map((list) => new List(list, this));
+	}
+
+	/**
+	 * @name getList
+	 * @description Fetches a list of a user.
+	 * @param {string} name The name of the list.
+	 * @param {string} [username] The username of the list owner. Defaults to the authenticated user.
+	 * @returns {Promise<List>} A promise that resolves with the list.
+	 * @async
+	 */
+	async getList(name: string, username?: string): Promise<List> {
+		const list = await this.request(
+			"GET",
+			`${await this.listsPath(username)}/${name}`,
+			{ schema: listDataSchema },
+		);
+		return new List(list, this);
+	}
+
+	/**
+	 * @name createList
+	 * @description Creates a list for the authenticated user.
+	 * @param {Object} data The name of the list, and optionally its display name, description and visibility.
+	 * @returns {Promise<List>} A promise that resolves with the new list.
+	 * @async
+	 */
+	async createList(
+		data: Pick<ListSettingsData, "name"> &
+			Partial<Pick<ListSettingsData, "displayName" | "description" | "public">>,
+	): Promise<List> {
+		const list = await this.request("POST", await this.listsPath(), {
+			schema: listDataSchema,
+			body: JSON.stringify({
+				displayName: data.name,
+				public: false,
+				...data,
+			}),
+		});
+		return new List(list, this);
+	}
 
 	/**
-	 * @description Creates a new instance of the DiscuitClient.
-	 * @param {ApiConfig} config The configuration for the client.
+	 * @name updateList
+	 * @description Updates a list of the authenticated user.
+	 * @param {string} name The current name of the list.
+	 * @param {ListSettingsData} data The fields to change. Fields that are omitted are left unchanged.
+	 * @returns {Promise<List>} A promise that resolves with the updated list.
+	 * @async
 	 */
-	constructor(config: ApiConfig) {
-		this.baseURL =
-			config.baseURL?.replace(/\/?$/, "/") || "https://discuit.net/api/";
+	async updateList(
+		name: string,
+		data: Partial<ListSettingsData>,
+	): Promise<List> {
+		const list = await this.request(
+			"PUT",
+			`${await this.listsPath()}/${name}`,
+			{ schema: listDataSchema, body: JSON.stringify(data) },
+		);
+		return new List(list, this);
 	}
 
 	/**
-	 * @name handleResponse
-	 * @description Extracts the CSRF token and SID from the response headers and stores them in the client.
-	 * @param {Response} response - The response received from the API request.
-	 * @returns {Response} - The updated response.
-	 * @private
+	 * @name renameList
+	 * @description Renames a list of the authenticated user.
+	 * @param {string} name The current name of the list.
+	 * @param {string} newName The new name of the list.
+	 * @param {string} [displayName] The new display name of the list.
+	 * @returns {Promise<List>} A promise that resolves with the renamed list.
+	 * @async
 	 */
-	private handleResponse = (response: Response): Response => {
-		const cookies = response.headers.getAll("set-cookie");
-		if (cookies) {
-			for (const cookie of cookies) {
-				if (cookie.startsWith("csrftoken="))
-					this.csrfToken = cookie.split(";")[0].split("=")[1];
-				else if (cookie.startsWith("SID="))
-					this.sid = cookie.split(";")[0].split("=")[1];
-			}
-		}
-
-		const headerCsrfToken = response.headers.get("csrf-token");
-		if (headerCsrfToken) this.csrfToken = headerCsrfToken;
+	async renameList(
+		name: string,
+		newName: string,
+		displayName?: string,
+	): Promise<List> {
+		return this.updateList(name, {
+			name: newName,
+			...(displayName !== undefined && { displayName }),
+		});
+	}
 
-		return response;
-	};
+	/**
+	 * @name setListSort
+	 * @description Changes the order of the items in a list of the authenticated user.
+	 * @param {string} name The name of the list.
+	 * @param {string} sort The new sort order.
+	 * @returns {Promise<List>} A promise that resolves with the updated list.
+	 * @async
+	 */
+	async setListSort(name: string, sort: ListData["sort"]): Promise<List> {
+		return this.updateList(name, { sort });
+	}
 
 	/**
-	 * @description Makes a request to the API.
-	 * @param {string} method - The HTTP method for the request.
-	 * @param {string} url - The URL for the request.
-	 * @param {Object} options - Additional options for the request.
-	 * @returns {Promise<T>} - A Promise that resolves to the response data of type T.
-	 * @private
+	 * @name deleteList
+	 * @description Deletes a list of the authenticated user.
+	 * @param {string} name The name of the list.
+	 * @returns {Promise<void>} A promise that resolves once the list was deleted.
 	 * @async
 	 */
-	private async request<T>(
-		method: string,
-		url: string,
-		options: RequestOptions = {},
-	): Promise<T> {
-		const headers = new Headers(options.headers);
+	async deleteList(name: string): Promise<void> {
+		await this.request("DELETE", `${await this.listsPath()}/${name}`);
+	}
 
-		if (method.toUpperCase() !== "GET" && this.csrfToken) {
-			headers.set("X-Csrf-Token", this.csrfToken);
-		}
+	/**
+	 * @name getListItems
+	 * @description Fetches a page of the items in a list, in the sort order of the list.
+	 * @param {string} name The name of the list.
+	 * @returns {Promise<ListItemFeed>} A promise that resolves with the items.
+	 * @async
+	 */
+	async getListItems(
+		name: string,
+		options?: {
+			/** The username of the list owner. Defaults to the authenticated user. */
+			username?: string;
+			/** The next page token. */
+			next?: string;
+			/** A signal that aborts the request. */
+			signal?: AbortSignal;
+		},
+	): Promise<ListItemFeed> {
+		const params: Record<string, string> = {};
+		if (options?.next) params.next = options.next;
 
-		headers.set("Cookie", `SID=${this.sid}; csrftoken=${this.csrfToken}`);
+		const response = await this.request(
+			"GET",
+			`${await this.listsPath(options?.username)}/${name}/items`,
+			{ schema: listItemFeedResponseSchema, params, signal: options?.signal },
+		);
 
-		const fullUrl: URL = new URL(url, this.baseURL);
-		if (options.params) {
-			for (const [key, value] of Object.entries(options.params)) {
-				fullUrl.searchParams.append(key, value);
-			}
-		}
+		return {
+			items: (response.items ?? []).map((item) =>
+				this.createListItemInstance(item),
+			),
+			next: response.next,
+		};
+	}
 
-		try {
-			let response = await fetch(fullUrl.toString(), {
-				method,
-				...options,
-				headers,
+	/**
+	 * @name iterateListItems
+	 * @description Walks the items in a list, in the sort order of the list.
+	 * @param {string} name The name of the list.
+	 * @returns {AsyncGenerator<ListItem>} The items.
+	 */
+	iterateListItems(
+		name: string,
+		options?: {
+			/** The username of the list owner. Defaults to the authenticated user. */
+			username?: string;
+		} & IterateOptions,
+	): AsyncGenerator<ListItem, void, undefined> {
+		let username = options?.username;
+		return paginate<ListItem, string>(async (next) => {
+			// Resolve the owner once rather than on every page.
+			username ??= (await this.getUser()).username;
+			const feed = await this.getListItems(name, {
+				username,
+				next,
+				signal: options?.signal,
 			});
-
-			response = this.handleResponse(response);
-
-			if (!response.ok) {
-				throw new Error(`HTTP error! status: ${response.status}`);
-			}
-
-			const data = await response.json();
-			return data as T;
-		} catch (error) {
-			console.error("Request failed:", error);
-			throw error;
-		}
+			return { items: feed.items, next: feed.next };
+		}, options);
 	}
 
 	/**
-	 * @description Fetches the initial data from the API.
-	 * @return {Promise<InitialResponseData>} A promise that resolves with the initial response data.
-	 * @throws {Error} If initialization fails due to missing csrfToken or sid.
+	 * @name addToList
+	 * @description Adds a post or a comment to a list of the authenticated user.
+	 * @param {string} name The name of the list.
+	 * @param {string} targetType Whether the target is a post or a comment.
+	 * @param {string} targetId The ID of the post or comment.
+	 * @returns {Promise<ListItem>} A promise that resolves with the new item.
 	 * @async
 	 */
-	async initialize(): Promise<InitialResponseData> {
-		const response: InitialResponseData = await this.request("GET", "_initial");
-		if (!this.csrfToken || !this.sid) throw new Error("Initialization failed");
-		return response;
+	async addToList(
+		name: string,
+		targetType: "post" | "comment",
+		targetId: string,
+	): Promise<ListItem> {
+		const item = await this.request(
+			"POST",
+			`${await this.listsPath()}/${name}/items`,
+			{
+				schema: listItemDataSchema,
+				body: JSON.stringify({ targetType, targetId }),
+			},
+		);
+		return this.createListItemInstance(item);
 	}
 
 	/**
-	 * @name login
-	 * @description Logs in to the API.
-	 * @param {string} username The username to log in with.
-	 * @param {string} password The password to log in with.
+	 * @name removeFromList
+	 * @description Removes an item from a list of the authenticated user.
+	 * @param {string} name The name of the list.
+	 * @param {number} itemId The ID of the list item.
+	 * @returns {Promise<void>} A promise that resolves once the item was removed.
 	 * @async
 	 */
-	async login(username: string, password: string): Promise<UserData> {
-		return await this.request<UserData>("POST", "_login", {
-			body: JSON.stringify({ username, password }),
-		});
+	async removeFromList(name: string, itemId: number): Promise<void> {
+		await this.request(
+			"DELETE",
+			`${await this.listsPath()}/${name}/items/${itemId}`,
+		);
 	}
 
 	/**
-	 * @name loginWithSid
-	 * @description Logs in to the API using a session ID.
-	 * @param {string} sid The session ID to log in with.
-	 * @returns {Promise<UserData>} A promise that resolves with the user data.
-	 * @async
+	 * @name watch
+	 * @description Creates a watcher that polls notifications and feeds and emits events for new items.
+	 * Call `start` on the watcher once its listeners were added.
+	 * @param {WatchOptions} [options] What to poll and how often.
+	 * @returns {Watcher} The watcher.
 	 */
-	async loginWithSid(sid: string): Promise<UserData> {
-		this.sid = sid;
-		await this.initialize();
-		return await this.getUser();
+	watch(options?: WatchOptions): Watcher {
+		return new Watcher(this, options);
 	}
 
 	/**
-	 * @name getUser
-	 * @description Fetches a user from the API.
-	 * @param {string} [username] The ID of the user to fetch.
-	 * @returns {Promise<UserData>} A promise that resolves with the user data.
-	 * @async
+	 * @name bot
+	 * @description Creates a bot that runs commands invoked in new comments, replies and posts.
+	 * Register commands on the bot and call `start` once the client is logged in.
+	 * @param {BotOptions} [options] How the bot parses commands and what it watches.
+	 * @returns {Bot} The bot.
 	 */
-	async getUser(username?: string): Promise<UserData> {
-		if (!username) {
-			return await this.request<UserData>("GET", "_user");
-		}
-		return await this.request<UserData>("GET", `users/${username}`);
+	bot(options?: BotOptions): Bot {
+		return new Bot(this, options);
 	}
 
 	createPostInstances(postDataArray: PostData[]): Post[] {
 		return postDataArray.map((postData) => new Post(postData, this));
 	}
 
+	/**
+	 * @name hydrate
+	 * @description Turns data produced by `toJSON`, eg. read back from a cache or received from another process,
+	 * into entities bound to this client. Posts, comments, users, communities, lists, reports and images are
+	 * recognised by their fields, including those nested in feeds, notifications and arrays. Other values are kept.
+	 * @param {unknown} json The data, or a JSON string of it.
+	 * @returns {unknown} The data with its entities rebuilt.
+	 * @example
+	 * ```ts
+	 * await redis.set("feed", JSON.stringify(await client.getPosts()));
+	 * const feed = client.hydrate<NormalFeed>(await redis.get("feed"));
+	 * await feed.posts[0].upvote();
+	 * ```
+	 */
+	hydrate(json: PostData): Post;
+	hydrate(json: CommentData): Comment;
+	hydrate(json: UserData): User;
+	hydrate(json: CommunityData): Community;
+	hydrate(json: ListData): List;
+	hydrate(json: ReportData): Report;
+	hydrate(json: ImageData): Image;
+	hydrate<T = unknown>(json: unknown): T;
+	hydrate(json: unknown): unknown {
+		return this.hydrateValue(
+			typeof json === "string" ? JSON.parse(json) : json,
+		);
+	}
+
+	/**
+	 * @name hydrateValue
+	 * @description Rebuilds the entities in a value parsed from JSON.
+	 * @param {unknown} value The value.
+	 * @returns {unknown} The value with its entities rebuilt.
+	 */
+	private hydrateValue(value: unknown): unknown {
+		if (Array.isArray(value)) {
+			return value.map((item) => this.hydrateValue(item));
+		}
+		// Entities and other class instances are already hydrated.
+		if (
+			typeof value !== "object" ||
+			value === null ||
+			Object.getPrototypeOf(value) !== Object.prototype
+		) {
+			return value;
+		}
+
+		const data = value as Record<string, unknown>;
+		if ("copies" in data && "averageColor" in data) {
+			return new Image(data as ImageData, this);
+		}
+		if ("reasonId" in data && "target" in data) {
+			return new Report(data as ReportData, this);
+		}
+		if ("publicId" in data && "title" in data) {
+			return new Post(data as PostData, this);
+		}
+		if ("postPublicId" in data && "parentId" in data) {
+			return new Comment(data as CommentData, this);
+		}
+		if ("numItems" in data && "displayName" in data) {
+			return new List(data as ListData, this);
+		}
+		if ("noMembers" in data && "name" in data) {
+			return new Community(data as CommunityData, this);
+		}
+		if ("username" in data && "points" in data) {
+			return new User(data as UserData, this);
+		}
+
+		return Object.fromEntries(
+			Object.entries(data).map(([key, item]) => [key, this.hydrateValue(item)]),
+		);
+	}
+
 	/**
 	 * @name getPosts
 	 * @description Fetches posts from the API.
-	 * @returns
-	 */
-	async getPosts(options?: {
-		/** The type of feed to fetch. */
-		feed?: "home" | "all" | "community";
-		/** The sort order of the feed. */
-		sort?:
-			| "latest"
-			| "hot"
-			| "activity"
-			| "day"
-			| "week"
-			| "month"
-			| "year"
-			| "all";
-		/** The filter to apply to the feed. */
-		filter?: "all" | "deleted" | "locked";
-		/** The ID of the community to fetch posts from. */
-		communityId?: string;
-		/** The next page token. */
-		next?: string;
-		/** The maximum number of posts to fetch. */
-		limit?: number;
-		/** Whether to fetch comments for each post. */
-		comments?: boolean;
-	}): Promise<NormalFeed | ModeratorFeed> {
+	 * @param {GetPostsOptions} [options] The feed to fetch.
+	 * @returns {Promise<NormalFeed | ModeratorFeed>} A promise that resolves with the feed.
+	 * @async
+	 */
+	async getPosts(
+		options?: GetPostsOptions,
+	): Promise<NormalFeed | ModeratorFeed> {
 		const params: Record<string, string> = {};
 
 		params.feed = options?.feed || "all";
@@ -232,21 +2069,37 @@ class DiscuitClient {
 		if (options?.filter) params.filter = options.filter;
 		if (options?.communityId) params.communityId = options.communityId;
 		if (options?.next) params.next = options.next;
+		if (options?.page) params.page = options.page.toString();
 		if (options?.limit) params.limit = options.limit.toString();
 		else params.limit = "10";
 
-		const response = await this.request<
-			NormalFeedResponse | ModeratorFeedResponse
-		>("GET", "posts", { params });
+		const response = await this.request("GET", "posts", {
+			schema: union(normalFeedResponseSchema, moderatorFeedResponseSchema),
+			params,
+			signal: options?.signal,
+		});
+
+		if (options?.hideMuted ?? this.hideMuted) {
+			response.posts = response.posts.filter(
+				(post) => !post.isAuthorMuted && !post.isCommunityMuted,
+			);
+		}
 
 		if (options?.comments) {
-			for (const post of response.posts) {
+			const loadComments = async (post: PostData) => {
 				const fullPost = await this.getPost(post.publicId);
 				if (fullPost.comments) {
 					post.comments = fullPost.comments.map(
 						(commentData) => new Comment(commentData, this),
 					);
 				}
+			};
+
+			// The posts are only fetched concurrently if the rate limiter queues the requests.
+			if (this.rateLimiter) {
+				await Promise.all(response.posts.map(loadComments));
+			} else {
+				for (const post of response.posts) await loadComments(post);
 			}
 		}
 
@@ -254,6 +2107,88 @@ class DiscuitClient {
 		return response as NormalFeed | ModeratorFeed;
 	}
 
+	/**
+	 * @name iteratePosts
+	 * @description Walks a feed of posts, following the next page token or page number as needed.
+	 * @param {GetPostsOptions & IterateOptions} [options] The feed to walk, the maximum number of posts and an abort signal.
+	 * @returns {AsyncGenerator<Post>} The posts.
+	 * @example
+	 * ```ts
+	 * for await (const post of client.iteratePosts({ sort: "hot", maxItems: 100 })) {
+	 * 	console.log(post.title);
+	 * }
+	 * ```
+	 */
+	iteratePosts(
+		options?: Omit<GetPostsOptions, "next"> & IterateOptions,
+	): AsyncGenerator<Post, void, undefined> {
+		const hideMuted = options?.hideMuted ?? this.hideMuted;
+		return paginate<Post, string | number>(async (start) => {
+			// Muted posts are dropped here rather than by getPosts, so that pages of only muted posts are skipped
+			// instead of ending the walk.
+			let cursor = start;
+			for (;;) {
+				const feed = await this.getPosts({
+					...options,
+					next: typeof cursor === "string" ? cursor : undefined,
+					page: typeof cursor === "number" ? cursor : options?.page,
+					hideMuted: false,
+				});
+				const next =
+					"next" in feed
+						? feed.next
+						: nextPageNumber(feed.page, feed.limit, feed.noPosts);
+				const posts = hideMuted
+					? feed.posts.filter(
+							(post) => !post.isAuthorMuted && !post.isCommunityMuted,
+						)
+					: feed.posts;
+
+				if (posts.length > 0 || feed.posts.length === 0 || next === null) {
+					return { items: posts, next };
+				}
+				cursor = next;
+			}
+		}, options);
+	}
+
+	/**
+	 * @name readImage
+	 * @description Reads an image and checks its format and size against the limit of the client.
+	 * @param {ImageSource} image The image.
+	 * @returns {Promise<File>} A promise that resolves with the image.
+	 * @private
+	 * @async
+	 */
+	private readImage(image: ImageSource): Promise<File> {
+		return readImage(image, { maxSize: this.maxImageSize });
+	}
+
+	/**
+	 * @name uploadImage
+	 * @description Uploads an image, eg. to create an image post with it.
+	 * @param {ImageSource} image The image to upload, a file path, Blob, byte array or stream.
+	 * @param {UploadImageOptions} [options] The maximum size and file name of the image.
+	 * @returns {Promise<ImageData>} A promise that resolves with the uploaded image.
+	 * @throws {DiscuitImageError} If the image is not a JPEG, WebP or PNG image or is too large.
+	 * @async
+	 */
+	async uploadImage(
+		image: ImageSource,
+		options?: UploadImageOptions,
+	): Promise<ImageData> {
+		const body = new FormData();
+		body.append(
+			"image",
+			await readImage(image, { maxSize: this.maxImageSize, ...options }),
+		);
+
+		return await this.request("POST", "_uploads", {
+			schema: imageDataSchema,
+			body,
+		});
+	}
+
 	/**
 	 * @name newPost
 	 * @description Creates a new post.
@@ -271,16 +2206,25 @@ class DiscuitClient {
 		body?: string;
 		/** The link of the post. Only required for link posts. */
 		link?: string;
-		/** The path to the image. Only required for image posts. */
-		image?: string;
+		/** The image of the post, either uploaded with `uploadImage` or to upload. Only required for image posts. */
+		image?: ImageSource | ImageData;
 	}): Promise<Post> {
 		if (data.type === "link" && !data.link)
 			throw new Error("Link is required for link posts.");
 		if (data.type === "image" && !data.image)
 			throw new Error("Image is required for image posts.");
 
+		const { image, ...fields } = data;
+		const imageId =
+			image === undefined
+				? undefined
+				: isImageData(image)
+					? image.id
+					: (await this.uploadImage(image)).id;
+
 		const post: PostData = await this.request("POST", "posts", {
-			body: JSON.stringify({ ...data }),
+			schema: postDataSchema,
+			body: JSON.stringify({ ...fields, imageId }),
 		});
 
 		return new Post(post, this);
@@ -293,7 +2237,9 @@ class DiscuitClient {
 	 * @async
 	 */
 	async getPost(id: string): Promise<Post> {
-		const data = await this.request<PostData>("GET", `posts/${id}`);
+		const data = await this.request("GET", `posts/${id}`, {
+			schema: postDataSchema,
+		});
 		return new Post(data, this);
 	}
 
@@ -305,6 +2251,7 @@ class DiscuitClient {
 	 */
 	async upvotePost(id: string): Promise<Post> {
 		const post: PostData = await this.request("POST", "_postVote", {
+			schema: postDataSchema,
 			body: JSON.stringify({
 				postId: id,
 				up: true,
@@ -322,6 +2269,7 @@ class DiscuitClient {
 	 */
 	async downvotePost(id: string): Promise<Post> {
 		const post: PostData = await this.request("POST", "_postVote", {
+			schema: postDataSchema,
 			body: JSON.stringify({
 				postId: id,
 				up: false,
@@ -345,6 +2293,7 @@ class DiscuitClient {
 		deleteContent?: boolean,
 	): Promise<Post> {
 		const post: PostData = await this.request("DELETE", `posts/${id}`, {
+			schema: postDataSchema,
 			params: {
 				deleteAs: deleteAs || "normal",
 				deleteContent: deleteContent ? "true" : "false",
@@ -364,12 +2313,110 @@ class DiscuitClient {
 	 */
 	async updatePost(id: string, title?: string, body?: string): Promise<Post> {
 		const post: PostData = await this.request("PUT", `posts/${id}`, {
+			schema: postDataSchema,
 			body: JSON.stringify({ title, body }),
 		});
 
 		return new Post(post, this);
 	}
 
+	/**
+	 * @name lockPost
+	 * @description Locks a post, so that no more comments can be made on it.
+	 * @param {string} id The public ID of the post.
+	 * @param {string} lockAs The capacity in which the post is locked, either "mods" or "admins".
+	 * @async
+	 */
+	async lockPost(id: string, lockAs: "mods" | "admins"): Promise<Post> {
+		const post: PostData = await this.request("PUT", `posts/${id}`, {
+			schema: postDataSchema,
+			params: { action: "lock", lockAs },
+		});
+
+		return new Post(post, this);
+	}
+
+	/**
+	 * @name unlockPost
+	 * @description Unlocks a post.
+	 * @param {string} id The public ID of the post.
+	 * @param {string} lockAs The capacity in which the post is unlocked, either "mods" or "admins".
+	 * @async
+	 */
+	async unlockPost(id: string, lockAs: "mods" | "admins"): Promise<Post> {
+		const post: PostData = await this.request("PUT", `posts/${id}`, {
+			schema: postDataSchema,
+			params: { action: "unlock", lockAs },
+		});
+
+		return new Post(post, this);
+	}
+
+	/**
+	 * @name pinPost
+	 * @description Pins a post to the top of its community or, as an admin, site-wide.
+	 * @param {string} id The public ID of the post.
+	 * @param {string} pinAs The capacity in which the post is pinned, either "mods" or "admins".
+	 * @param {boolean} [siteWide] Whether to pin the post site-wide. Only available to admins.
+	 * @async
+	 */
+	async pinPost(
+		id: string,
+		pinAs: "mods" | "admins",
+		siteWide?: boolean,
+	): Promise<Post> {
+		const post: PostData = await this.request("PUT", `posts/${id}`, {
+			schema: postDataSchema,
+			params: { action: "pin", pinAs, siteWide: siteWide ? "true" : "false" },
+		});
+
+		return new Post(post, this);
+	}
+
+	/**
+	 * @name unpinPost
+	 * @description Unpins a post from the top of its community or, as an admin, site-wide.
+	 * @param {string} id The public ID of the post.
+	 * @param {string} pinAs The capacity in which the post is unpinned, either "mods" or "admins".
+	 * @param {boolean} [siteWide] Whether to unpin the post site-wide. Only available to admins.
+	 * @async
+	 */
+	async unpinPost(
+		id: string,
+		pinAs: "mods" | "admins",
+		siteWide?: boolean,
+	): Promise<Post> {
+		const post: PostData = await this.request("PUT", `posts/${id}`, {
+			schema: postDataSchema,
+			params: {
+				action: "unpin",
+				pinAs,
+				siteWide: siteWide ? "true" : "false",
+			},
+		});
+
+		return new Post(post, this);
+	}
+
+	/**
+	 * @name changePostAuthorGroup
+	 * @description Changes the capacity in which a post was made, eg. to speak officially as a moderator.
+	 * @param {string} id The public ID of the post.
+	 * @param {string} userGroup The new capacity, either "normal", "mods" or "admins".
+	 * @async
+	 */
+	async changePostAuthorGroup(
+		id: string,
+		userGroup: "normal" | "mods" | "admins",
+	): Promise<Post> {
+		const post: PostData = await this.request("PUT", `posts/${id}`, {
+			schema: postDataSchema,
+			params: { action: "changeAsUser", userGroup },
+		});
+
+		return new Post(post, this);
+	}
+
 	/**
 	 * @name comment
 	 * @description Comments on a post.
@@ -383,6 +2430,7 @@ class DiscuitClient {
 			"POST",
 			`posts/${id}/comments`,
 			{
+				schema: commentDataSchema,
 				body: JSON.stringify({ body, parentCommentId: parentId || null }),
 			},
 		);
@@ -390,6 +2438,74 @@ class DiscuitClient {
 		return new Comment(comment, this);
 	}
 
+	/**
+	 * @name getComments
+	 * @description Fetches a page of the comments of a post.
+	 * @param {string} postId The public ID of the post.
+	 * @returns {Promise<CommentFeed>} A promise that resolves with the comments.
+	 * @async
+	 */
+	async getComments(
+		postId: string,
+		options?: {
+			/** The next page token. */
+			next?: string;
+			/** Only fetch the replies to the comment with this ID. */
+			parentId?: string;
+			/** A signal that aborts the request. */
+			signal?: AbortSignal;
+		},
+	): Promise<CommentFeed> {
+		const params: Record<string, string> = {};
+		if (options?.next) params.next = options.next;
+		if (options?.parentId) params.parentId = options.parentId;
+
+		const response = await this.request("GET", `posts/${postId}/comments`, {
+			schema: commentFeedResponseSchema,
+			params,
+			signal: options?.signal,
+		});
+
+		return {
+			comments: (response.comments ?? []).map(
+				(comment) => new Comment(comment, this),
+			),
+			next: response.next,
+		};
+	}
+
+	/**
+	 * @name iterateComments
+	 * @description Walks all comments of a post, or all replies to a comment, fetching further pages as needed.
+	 * @param {string} postId The public ID of the post.
+	 * @returns {AsyncGenerator<Comment>} The comments.
+	 */
+	iterateComments(
+		postId: string,
+		options?: {
+			/** Only walk the replies to the comment with this ID. */
+			parentId?: string;
+		} & IterateOptions,
+	): AsyncGenerator<Comment, void, undefined> {
+		return paginate<Comment, string>(async (next) => {
+			const feed = await this.getComments(postId, { ...options, next });
+			return { items: feed.comments, next: feed.next };
+		}, options);
+	}
+
+	/**
+	 * @name getComment
+	 * @description Gets a comment from the API using its ID.
+	 * @param {string} id The ID of the comment.
+	 * @async
+	 */
+	async getComment(id: string): Promise<Comment> {
+		const data = await this.request("GET", `comments/${id}`, {
+			schema: commentDataSchema,
+		});
+		return new Comment(data, this);
+	}
+
 	/**
 	 * @name upvoteComment
 	 * @description Upvotes a comment.
@@ -398,6 +2514,7 @@ class DiscuitClient {
 	 */
 	async upvoteComment(id: string): Promise<Comment> {
 		const comment: CommentData = await this.request("POST", "_commentVote", {
+			schema: commentDataSchema,
 			body: JSON.stringify({
 				commentId: id,
 				up: true,
@@ -415,6 +2532,7 @@ class DiscuitClient {
 	 */
 	async downvoteComment(id: string): Promise<Comment> {
 		const comment: CommentData = await this.request("POST", "_commentVote", {
+			schema: commentDataSchema,
 			body: JSON.stringify({
 				commentId: id,
 				up: false,
@@ -441,6 +2559,7 @@ class DiscuitClient {
 			"DELETE",
 			`posts/${postId}/comments/${id}`,
 			{
+				schema: commentDataSchema,
 				params: {
 					deleteAs: deleteAs || "normal",
 				},
@@ -450,6 +2569,50 @@ class DiscuitClient {
 		return new Comment(comment, this);
 	}
 
+	/**
+	 * @name lockComment
+	 * @description Locks a comment, so that no more replies can be made to it.
+	 * @param {string} postId The public ID of the post.
+	 * @param {string} id The ID of the comment.
+	 * @param {string} lockAs The capacity in which the comment is locked, either "mods" or "admins".
+	 * @async
+	 */
+	async lockComment(
+		postId: string,
+		id: string,
+		lockAs: "mods" | "admins",
+	): Promise<Comment> {
+		const comment: CommentData = await this.request(
+			"PUT",
+			`posts/${postId}/comments/${id}`,
+			{ schema: commentDataSchema, params: { action: "lock", lockAs } },
+		);
+
+		return new Comment(comment, this);
+	}
+
+	/**
+	 * @name unlockComment
+	 * @description Unlocks a comment.
+	 * @param {string} postId The public ID of the post.
+	 * @param {string} id The ID of the comment.
+	 * @param {string} lockAs The capacity in which the comment is unlocked, either "mods" or "admins".
+	 * @async
+	 */
+	async unlockComment(
+		postId: string,
+		id: string,
+		lockAs: "mods" | "admins",
+	): Promise<Comment> {
+		const comment: CommentData = await this.request(
+			"PUT",
+			`posts/${postId}/comments/${id}`,
+			{ schema: commentDataSchema, params: { action: "unlock", lockAs } },
+		);
+
+		return new Comment(comment, this);
+	}
+
 	/**
 	 * @name updateComment
 	 * @description Updates a comment.
@@ -466,9 +2629,7 @@ class DiscuitClient {
 		const comment: CommentData = await this.request(
 			"PUT",
 			`posts/${postId}/comments/${id}`,
-			{
-				body: JSON.stringify({ body }),
-			},
+			{ schema: commentDataSchema, body: JSON.stringify({ body }) },
 		);
 
 		return new Comment(comment, this);
@@ -0,0 +1,172 @@
+/**
+ * @file Image.ts
+ * @module Image
+ * @description Class representing an image and its copies in different sizes.
+ */
+
+import type { DiscuitClient } from "./DiscuitClient";
+import type { ImageCopyData, ImageData } from "./types";
+
+/**
+ * @name BestCopyOptions
+ * @description The box an image copy should fit and the format it should have.
+ */
+export interface BestCopyOptions {
+	/** The width of the box in CSS pixels. Any width fits if omitted. */
+	width?: number;
+	/** The height of the box in CSS pixels. Any height fits if omitted. */
+	height?: number;
+	/** The preferred format. Copies of other formats are only chosen if there is no copy of this format. */
+	format?: ImageCopyData["format"];
+	/** The device pixel ratio the box is scaled by. Defaults to 1. */
+	pixelRatio?: number;
+}
+
+/**
+ * @name Image
+ * @description Represents an image with URLs resolved against the base URL of the client.
+ * @example
+ * ```ts
+ * const copy = post.image?.bestCopy({ width: 320, height: 240, format: "webp" });
+ * console.log(post.image?.resolve(copy));
+ * ```
+ */
+export class Image {
+	/** The Discuit client instance. */
+	private client: DiscuitClient;
+
+	/** The ID of the image. */
+	public readonly id!: string;
+	/** The image format. */
+	public readonly format!: ImageData["format"];
+	/** The image MIME Type, eg. "image/jpeg". */
+	public readonly mimetype!: string;
+	/** The image width. */
+	public readonly width!: number;
+	/** The image height. */
+	public readonly height!: number;
+	/** The size of the image in bytes. */
+	public readonly size!: number;
+	/** The average color of the image. */
+	public readonly averageColor!: string;
+	/** A link to the image as returned by the API. The path is not prefixed with /api, see `absoluteUrl`. */
+	public readonly url!: string;
+	/** A list of copies of the image in different sizes. */
+	public readonly copies!: ImageCopyData[];
+
+	/**
+	 * @name constructor
+	 * @description Creates a new instance of the Image class.
+	 * @param {ImageData} data The data for the image.
+	 * @param {DiscuitClient} client The Discuit client instance.
+	 */
+	constructor(data: ImageData, client: DiscuitClient) {
+		this.client = client;
+
+		Object.assign(this, data);
+	}
+
+	/**
+	 * @name absoluteUrl
+	 * @description The absolute URL of the full-size image.
+	 */
+	get absoluteUrl(): string {
+		return this.client.resolveURL(this.url);
+	}
+
+	/**
+	 * @name resolve
+	 * @description Resolves the URL of a copy of the image against the base URL of the client.
+	 * @param {ImageCopyData} [copy] The copy. Resolves the full-size image if omitted.
+	 * @returns {string} The absolute URL.
+	 */
+	resolve(copy?: ImageCopyData): string {
+		return this.client.resolveURL(copy?.url ?? this.url);
+	}
+
+	/**
+	 * @name candidates
+	 * @description Lists the copies and the full-size image, preferring a format if one is given.
+	 * @param {string} [format] The preferred format.
+	 * @returns {ImageCopyData[]} The copies and the full-size image, smallest first.
+	 * @private
+	 */
+	private candidates(format?: ImageCopyData["format"]): ImageCopyData[] {
+		const all: ImageCopyData[] = [
+			...(this.copies ?? []),
+			{
+				width: this.width,
+				height: this.height,
+				boxWidth: this.width,
+				boxHeight: this.height,
+				objectFit: "contain",
+				format: this.format,
+				url: this.url,
+			},
+		];
+		const matching = format
+			? all.filter((copy) => copy.format === format)
+			: all;
+
+		return (matching.length ? matching : all).sort(
+			(a, b) => a.width * a.height - b.width * b.height,
+		);
+	}
+
+	/**
+	 * @name bestCopy
+	 * @description Chooses the smallest copy that covers a box, or the largest one if none does.
+	 * The full-size image counts as a copy, so this always returns one.
+	 * @param {BestCopyOptions} [options] The box and the preferred format.
+	 * @returns {ImageCopyData} The copy.
+	 */
+	bestCopy(options: BestCopyOptions = {}): ImageCopyData {
+		const ratio = options.pixelRatio ?? 1;
+		const width = (options.width ?? 0) * ratio;
+		const height = (options.height ?? 0) * ratio;
+		const candidates = this.candidates(options.format);
+
+		return (
+			candidates.find((copy) => copy.width >= width && copy.height >= height) ??
+			candidates[candidates.length - 1]
+		);
+	}
+
+	/**
+	 * @name srcset
+	 * @description Builds a `srcset` attribute from the copies of the image, by width.
+	 * @param {string} [format] The preferred format.
+	 * @returns {string} The srcset, eg. "https://discuit.net/images/a.webp?size=320x240 320w, ...".
+	 */
+	srcset(format?: ImageCopyData["format"]): string {
+		const widths = new Set<number>();
+		const entries: string[] = [];
+		for (const copy of this.candidates(format)) {
+			if (widths.has(copy.width)) continue;
+			widths.add(copy.width);
+			entries.push(`${this.resolve(copy)} ${copy.width}w`);
+		}
+		return entries.join(", ");
+	}
+
+	/**
+	 * @name download
+	 * @description Downloads the image or one of its copies.
+	 * @param {ImageCopyData} [copy] The copy to download. Downloads the full-size image if omitted.
+	 * @returns {Promise<Blob>} A promise that resolves with the image.
+	 * @async
+	 */
+	async download(copy?: ImageCopyData): Promise<Blob> {
+		return this.client.download(copy?.url ?? this.url);
+	}
+
+	/**
+	 * @name toJSON
+	 * @description Converts the image back to the data of the API, leaving out the client.
+	 * @returns {ImageData} The data of the image.
+	 */
+	toJSON(): ImageData {
+		const { client, ...data }: Image = this;
+		return data;
+	}
+}
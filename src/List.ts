@@ -0,0 +1,193 @@
+/**
+ * @file List.ts
+ * @module List
+ * @description Class representing a list of saved posts and comments.
+ */
+
+import type { Comment } from "./Comment";
+import type { DiscuitClient } from "./DiscuitClient";
+import { Post } from "./Post";
+import type { IterateOptions } from "./paginate";
+import { parseTime } from "./time";
+import type {
+	ListData,
+	ListItem,
+	ListItemFeed,
+	ListSettingsData,
+	TimeString,
+} from "./types";
+
+/**
+ * @name List
+ * @description Represents a list of saved posts and comments.
+ * @example
+ * ```ts
+ * const list = await client.createList({ name: "digest", displayName: "Weekly digest" });
+ * await post.saveTo(list.name);
+ * for await (const item of list.iterateItems()) console.log(item.targetItem);
+ * ```
+ */
+export class List {
+	/** The Discuit client instance. */
+	private client: DiscuitClient;
+
+	/** The ID of the list. */
+	public readonly id!: number;
+	/** The ID of the list owner. */
+	public readonly userId!: string;
+	/** The username of the list owner. */
+	public readonly username!: string;
+	/** The name of the list. */
+	public readonly name!: string;
+	/** The display name of the list. */
+	public readonly displayName!: string;
+	/** A description of the list. If no description is set, this is null. */
+	public readonly description!: string | null;
+	/** Indicates whether the list is a public or a private list. */
+	public readonly public!: boolean;
+	/** Number of items in the list. */
+	public readonly numItems!: number;
+	/** The current sorting of the list. */
+	public readonly sort!: ListData["sort"];
+	/** The time at which the list was created. */
+	public readonly createdAt!: TimeString;
+	/** The last time an item was added to the list (for brand-new lists this value is the same as createdAt). */
+	public readonly lastUpdatedAt!: TimeString;
+
+	/**
+	 * @name constructor
+	 * @description Creates a new instance of the List class.
+	 * @param {ListData} data The data for the list.
+	 * @param {DiscuitClient} client The Discuit client instance.
+	 */
+	constructor(data: ListData, client: DiscuitClient) {
+		this.client = client;
+
+		Object.assign(this, data);
+	}
+
+	/**
+	 * @name createdAtDate
+	 * @description The time at which the list was created, as a Date.
+	 * @returns {Date} The time.
+	 */
+	get createdAtDate(): Date {
+		return parseTime(this.createdAt);
+	}
+	/**
+	 * @name lastUpdatedAtDate
+	 * @description The last time an item was added to the list, as a Date.
+	 * @returns {Date} The time.
+	 */
+	get lastUpdatedAtDate(): Date {
+		return parseTime(this.lastUpdatedAt);
+	}
+
+	/**
+	 * @name update
+	 * @description Updates the list. Only available to its owner.
+	 * @param {ListSettingsData} data The fields to change. Fields that are omitted are left unchanged.
+	 * @returns {Promise<List>} A promise that resolves to the updated list.
+	 * @async
+	 */
+	async update(data: Partial<ListSettingsData>): Promise<List> {
+		const list = await this.client.updateList(this.name, data);
+		Object.assign(this, list);
+		return this;
+	}
+	/**
+	 * @name rename
+	 * @description Renames the list. Only available to its owner.
+	 * @param {string} name The new name of the list.
+	 * @param {string} [displayName] The new display name of the list.
+	 * @returns {Promise<List>} A promise that resolves to the updated list.
+	 * @async
+	 */
+	async rename(name: string, displayName?: string): Promise<List> {
+		return this.update({ name, displayName: displayName ?? this.displayName });
+	}
+	/**
+	 * @name setSort
+	 * @description Changes the order of the items in the list. Only available to its owner.
+	 * @param {string} sort The new sort order.
+	 * @returns {Promise<List>} A promise that resolves to the updated list.
+	 * @async
+	 */
+	async setSort(sort: ListData["sort"]): Promise<List> {
+		return this.update({ sort });
+	}
+	/**
+	 * @name delete
+	 * @description Deletes the list. Only available to its owner.
+	 * @returns {Promise<void>} A promise that resolves once the list was deleted.
+	 * @async
+	 */
+	async delete(): Promise<void> {
+		await this.client.deleteList(this.name);
+	}
+	/**
+	 * @name add
+	 * @description Adds a post or a comment to the list. Only available to its owner.
+	 * @param {Post | Comment} target The post or comment.
+	 * @returns {Promise<ListItem>} A promise that resolves with the new item.
+	 * @async
+	 */
+	async add(target: Post | Comment): Promise<ListItem> {
+		return this.client.addToList(
+			this.name,
+			target instanceof Post ? "post" : "comment",
+			target.id,
+		);
+	}
+	/**
+	 * @name remove
+	 * @description Removes an item from the list. Only available to its owner.
+	 * @param {ListItem | number} item The item or its ID.
+	 * @returns {Promise<void>} A promise that resolves once the item was removed.
+	 * @async
+	 */
+	async remove(item: ListItem | number): Promise<void> {
+		await this.client.removeFromList(
+			this.name,
+			typeof item === "number" ? item : item.id,
+		);
+	}
+	/**
+	 * @name getItems
+	 * @description Fetches a page of the items in the list.
+	 * @param {string} [next] The next page token.
+	 * @returns {Promise<ListItemFeed>} A promise that resolves with the items.
+	 * @async
+	 */
+	async getItems(next?: string): Promise<ListItemFeed> {
+		return this.client.getListItems(this.name, {
+			username: this.username,
+			next,
+		});
+	}
+	/**
+	 * @name iterateItems
+	 * @description Walks all items in the list, fetching further pages as needed.
+	 * @param {IterateOptions} [options] The maximum number of items and an abort signal.
+	 * @returns {AsyncGenerator<ListItem>} The items.
+	 */
+	iterateItems(
+		options?: IterateOptions,
+	): AsyncGenerator<ListItem, void, undefined> {
+		return this.client.iterateListItems(this.name, {
+			...options,
+			username: this.username,
+		});
+	}
+
+	/**
+	 * @name toJSON
+	 * @description Converts the list back to the data of the API, leaving out the client.
+	 * `client.hydrate` turns the data into a List again.
+	 * @returns {ListData} The data of the list.
+	 */
+	toJSON(): ListData {
+		const { client, ...data }: List = this;
+		return data;
+	}
+}
@@ -5,14 +5,18 @@
  */
 
 import { Comment } from "./Comment";
+import { Community } from "./Community";
 import type { DiscuitClient } from "./DiscuitClient";
-import type {
-	CommunityData,
-	ImageData,
-	PostData,
-	TimeString,
-	UserData,
-} from "./types";
+import { Image } from "./Image";
+import { User } from "./User";
+import type { IterateOptions } from "./paginate";
+import {
+	type RelativeTimeOptions,
+	formatRelativeTime,
+	parseTime,
+	timeSince,
+} from "./time";
+import type { CommentFeed, ListItem, PostData, TimeString } from "./types";
 
 /**
  * @name Post
@@ -57,16 +61,16 @@ export class Post {
 	/** The name of that community */
 	public communityName!: string;
 	/** The profile picture of that community */
-	public communityProPic!: ImageData;
+	public communityProPic!: Image;
 	/** The banner image of that community */
-	public communityBannerImage!: ImageData;
+	public communityBannerImage!: Image;
 
 	/** Greater than 3 characters */
 	public title!: string;
 	/** Body of the post (only valid for text posts, null otherwise) */
 	public body!: string | null;
 	/** The posted image (only valid for image posts, null otherwise) */
-	public image!: ImageData | null;
+	public image!: Image | null;
 	/** The URL of the link. */
 	public link:
 		| {
@@ -74,7 +78,7 @@ export class Post {
 				/** The hostname of the link. For a URL of "https://discuit.net", this would be "discuit.net". */
 				hostname: string;
 				/** The image object of the OpenGraph image on the site. If no OpenGraph image was found, this is null. */
-				image: ImageData | null;
+				image: Image | null;
 		  }
 		| undefined;
 
@@ -132,9 +136,9 @@ export class Post {
 	public isCommunityMuted!: boolean;
 
 	/** The Community object of the community that the post is in. */
-	public community!: CommunityData | undefined;
+	public community!: Community | undefined;
 	/** The User object of the author of the post. */
-	public author!: UserData;
+	public author!: User;
 
 	/**
 	 * Creates a new instance of the Post class.
@@ -145,13 +149,87 @@ export class Post {
 	constructor(data: PostData, client: DiscuitClient) {
 		this.client = client;
 
+		Object.assign(this, data);
+
+		if (data.image) this.image = new Image(data.image, client);
+		if (data.link?.image) {
+			this.link = { ...data.link, image: new Image(data.link.image, client) };
+		}
+		if (data.communityProPic) {
+			this.communityProPic = new Image(data.communityProPic, client);
+		}
+		if (data.communityBannerImage) {
+			this.communityBannerImage = new Image(data.communityBannerImage, client);
+		}
+
+		if (data.author) this.author = new User(data.author, client);
+		if (data.community) this.community = new Community(data.community, client);
+
 		if (data.comments) {
-			this.comments = data.comments.map(
-				(commentData) => new Comment(commentData, client),
+			this.comments = data.comments.map((commentData) =>
+				commentData instanceof Comment
+					? commentData
+					: new Comment(commentData, client),
 			);
 		}
+	}
 
-		Object.assign(this, data);
+	/**
+	 * @description The time at which the post was created, as a Date.
+	 * @returns {Date} The time.
+	 */
+	get createdAtDate(): Date {
+		return parseTime(this.createdAt);
+	}
+	/**
+	 * @description The time at which the post was last edited, as a Date.
+	 * @returns {Date | null} The time, null if the post was not edited.
+	 */
+	get editedAtDate(): Date | null {
+		return parseTime(this.editedAt);
+	}
+	/**
+	 * @description The time of the most recent comment on the post, or the time it was created if it has no comments, as a Date.
+	 * @returns {Date} The time.
+	 */
+	get lastActivityAtDate(): Date {
+		return parseTime(this.lastActivityAt);
+	}
+	/**
+	 * @description The time at which the post was locked, as a Date.
+	 * @returns {Date | null} The time, null if the post is not locked.
+	 */
+	get lockedAtDate(): Date | null {
+		return parseTime(this.lockedAt);
+	}
+	/**
+	 * @description The time at which the post was deleted, as a Date.
+	 * @returns {Date | null} The time, null if the post was not deleted.
+	 */
+	get deletedAtDate(): Date | null {
+		return parseTime(this.deletedAt);
+	}
+	/**
+	 * @description How long ago the post was created.
+	 * @returns {number} The age in milliseconds.
+	 */
+	get age(): number {
+		return timeSince(this.createdAt);
+	}
+	/**
+	 * @description Whether the post was edited after it was created.
+	 * @returns {boolean} Whether the post was edited.
+	 */
+	get isEdited(): boolean {
+		return this.editedAtDate !== null;
+	}
+	/**
+	 * @description Formats the time at which the post was created relative to now, eg. "3 hours ago".
+	 * @param {RelativeTimeOptions} [options] - The time to format relative to, the locale and the style.
+	 * @returns {string} The formatted time.
+	 */
+	relativeTime(options?: RelativeTimeOptions): string {
+		return formatRelativeTime(this.createdAt, options);
 	}
 
 	/**
@@ -204,4 +282,184 @@ export class Post {
 	async comment(body: string): Promise<Comment> {
 		return this.client.comment(this.publicId, body);
 	}
+	/**
+	 * @description Saves the post to a list of the authenticated user.
+	 * @param {string} listName - The name of the list.
+	 * @returns {Promise<ListItem>} A promise that resolves with the new list item.
+	 * @async
+	 */
+	async saveTo(listName: string): Promise<ListItem> {
+		return this.client.addToList(listName, "post", this.id);
+	}
+	/**
+	 * @description Reports the post to the moderators of its community.
+	 * @param {number} reasonId - The ID of the report reason, see `DiscuitClient.getReportReasons`.
+	 * @param {string} [description] - A description of the report.
+	 * @returns {Promise<void>} A promise that resolves once the report was filed.
+	 * @async
+	 */
+	async report(reasonId: number, description?: string): Promise<void> {
+		await this.client.report("post", this.id, reasonId, description);
+	}
+	/**
+	 * @description Locks the post, so that no more comments can be made on it.
+	 * @param {string} lockAs - The capacity in which the post is locked, either "mods" or "admins".
+	 * @returns {Promise<Post>} A promise that resolves to the locked post.
+	 * @async
+	 */
+	async lock(lockAs: "mods" | "admins"): Promise<Post> {
+		const post = await this.client.lockPost(this.publicId, lockAs);
+		Object.assign(this, post);
+		return this;
+	}
+	/**
+	 * @description Unlocks the post.
+	 * @param {string} lockAs - The capacity in which the post is unlocked, either "mods" or "admins".
+	 * @returns {Promise<Post>} A promise that resolves to the unlocked post.
+	 * @async
+	 */
+	async unlock(lockAs: "mods" | "admins"): Promise<Post> {
+		const post = await this.client.unlockPost(this.publicId, lockAs);
+		Object.assign(this, post);
+		return this;
+	}
+	/**
+	 * @description Mutes the author of the post for the authenticated user.
+	 * @returns {Promise<Post>} A promise that resolves to the updated post.
+	 * @async
+	 */
+	async muteAuthor(): Promise<Post> {
+		await this.client.muteUser(this.userId);
+		this.isAuthorMuted = true;
+		return this;
+	}
+	/**
+	 * @description Unmutes the author of the post for the authenticated user.
+	 * @returns {Promise<Post>} A promise that resolves to the updated post.
+	 * @async
+	 */
+	async unmuteAuthor(): Promise<Post> {
+		await this.client.unmuteUser(this.userId);
+		this.isAuthorMuted = false;
+		return this;
+	}
+	/**
+	 * @description Mutes the community of the post for the authenticated user.
+	 * @returns {Promise<Post>} A promise that resolves to the updated post.
+	 * @async
+	 */
+	async muteCommunity(): Promise<Post> {
+		await this.client.muteCommunity(this.communityId);
+		this.isCommunityMuted = true;
+		return this;
+	}
+	/**
+	 * @description Unmutes the community of the post for the authenticated user.
+	 * @returns {Promise<Post>} A promise that resolves to the updated post.
+	 * @async
+	 */
+	async unmuteCommunity(): Promise<Post> {
+		await this.client.unmuteCommunity(this.communityId);
+		this.isCommunityMuted = false;
+		return this;
+	}
+	/**
+	 * @description Pins the post to the top of its community or, as an admin, site-wide.
+	 * @param {string} pinAs - The capacity in which the post is pinned, either "mods" or "admins".
+	 * @param {boolean} [siteWide] - Whether to pin the post site-wide. Only available to admins.
+	 * @returns {Promise<Post>} A promise that resolves to the pinned post.
+	 * @async
+	 */
+	async pin(pinAs: "mods" | "admins", siteWide?: boolean): Promise<Post> {
+		const post = await this.client.pinPost(this.publicId, pinAs, siteWide);
+		Object.assign(this, post);
+		return this;
+	}
+	/**
+	 * @description Unpins the post from the top of its community or, as an admin, site-wide.
+	 * @param {string} pinAs - The capacity in which the post is unpinned, either "mods" or "admins".
+	 * @param {boolean} [siteWide] - Whether to unpin the post site-wide. Only available to admins.
+	 * @returns {Promise<Post>} A promise that resolves to the unpinned post.
+	 * @async
+	 */
+	async unpin(pinAs: "mods" | "admins", siteWide?: boolean): Promise<Post> {
+		const post = await this.client.unpinPost(this.publicId, pinAs, siteWide);
+		Object.assign(this, post);
+		return this;
+	}
+	/**
+	 * @description Changes the capacity in which the post was made, eg. to speak officially as a moderator.
+	 * @param {string} userGroup - The new capacity, either "normal", "mods" or "admins".
+	 * @returns {Promise<Post>} A promise that resolves to the updated post.
+	 * @async
+	 */
+	async changeAuthorGroup(
+		userGroup: "normal" | "mods" | "admins",
+	): Promise<Post> {
+		const post = await this.client.changePostAuthorGroup(
+			this.publicId,
+			userGroup,
+		);
+		Object.assign(this, post);
+		return this;
+	}
+	/**
+	 * @description Fetches a page of the comments of the post.
+	 * @param {Object} [options] - The page to fetch.
+	 * @param {string} [options.next] - The next page token, eg. `commentsNext`.
+	 * @param {string} [options.parentId] - Only fetch the replies to the comment with this ID.
+	 * @returns {Promise<CommentFeed>} A promise that resolves with the comments.
+	 * @async
+	 */
+	async getComments(options?: {
+		next?: string;
+		parentId?: string;
+	}): Promise<CommentFeed> {
+		return this.client.getComments(this.publicId, options);
+	}
+	/**
+	 * @description Walks all comments of the post, fetching further pages as needed.
+	 * @param {IterateOptions} [options] - The maximum number of comments and an abort signal.
+	 * @returns {AsyncGenerator<Comment>} The comments, in the order the API returns them.
+	 */
+	iterateComments(
+		options?: IterateOptions,
+	): AsyncGenerator<Comment, void, undefined> {
+		return this.client.iterateComments(this.publicId, options);
+	}
+	/**
+	 * @description Fetches all comments of the post and links them into a tree, see `Comment.buildTree`.
+	 * @returns {Promise<Comment[]>} A promise that resolves with the top-level comments.
+	 * @async
+	 */
+	async getCommentTree(): Promise<Comment[]> {
+		const comments: Comment[] = [];
+		for await (const comment of this.iterateComments()) comments.push(comment);
+
+		this.comments = comments;
+		this.commentsNext = null;
+		return Comment.buildTree(comments);
+	}
+
+	/**
+	 * @description Converts the post back to the data of the API, leaving out the client.
+	 * Its images, comments, author and community are converted as well. `client.hydrate` turns the data into a Post again.
+	 * @returns {PostData} The data of the post.
+	 */
+	toJSON(): PostData {
+		const { client, ...data }: Post = this;
+		return {
+			...data,
+			image: this.image?.toJSON() ?? null,
+			link: this.link && {
+				...this.link,
+				image: this.link.image?.toJSON() ?? null,
+			},
+			communityProPic: this.communityProPic?.toJSON(),
+			communityBannerImage: this.communityBannerImage?.toJSON(),
+			comments: this.comments?.map((comment) => comment.toJSON()),
+			community: this.community?.toJSON(),
+			author: this.author?.toJSON(),
+		};
+	}
 }
@@ -0,0 +1,176 @@
+/**
+ * @file RateLimiter.ts
+ * @module RateLimiter
+ * @description A token bucket that queues requests made by the DiscuitClient.
+ */
+
+/**
+ * @name RateLimitOptions
+ * @description Configures the client-side rate limit.
+ * @property {number} requests - The number of requests allowed per interval.
+ * @property {number} interval - The length of the interval in milliseconds.
+ * @property {number} maxConcurrency - The maximum number of requests in flight at once.
+ * @property {Function} onWait - Called whenever a queued request is let through.
+ */
+export interface RateLimitOptions {
+	/** The number of requests allowed per interval. This is also the size of the burst allowed after idling. */
+	requests: number;
+	/** The length of the interval in milliseconds. */
+	interval: number;
+	/** The maximum number of requests in flight at once. Unlimited if omitted. */
+	maxConcurrency?: number;
+	/** Called whenever a request leaves the queue, with the time it waited in milliseconds and the remaining queue depth. */
+	onWait?: (wait: number, queued: number) => void;
+}
+
+/**
+ * @name RateLimiterStats
+ * @description A snapshot of the state of a rate limiter.
+ */
+export type RateLimiterStats = {
+	/** The number of requests waiting in the queue. */
+	queued: number;
+	/** The number of requests currently in flight. */
+	active: number;
+	/** The number of tokens left in the bucket. */
+	tokens: number;
+	/** The number of requests let through so far. */
+	processed: number;
+	/** The time the last request waited in the queue, in milliseconds. */
+	lastWait: number;
+	/** The total time all requests waited in the queue, in milliseconds. */
+	totalWait: number;
+};
+
+/**
+ * @name RateLimiter
+ * @description Lets tasks through at a steady rate and up to a maximum concurrency, queueing the rest in order.
+ * @example
+ * ```ts
+ * const limiter = new RateLimiter({ requests: 5, interval: 1000 });
+ * const data = await limiter.schedule(() => fetch(url));
+ * ```
+ */
+export class RateLimiter {
+	/** The options of the rate limiter. */
+	private readonly options: RateLimitOptions;
+	/** The tasks waiting for a token, in order. */
+	private readonly queue: { resolve: () => void; enqueuedAt: number }[] = [];
+	/** The number of tokens in the bucket. */
+	private tokens: number;
+	/** The time at which the bucket was last refilled. */
+	private lastRefill: number = Date.now();
+	/** The number of tasks in flight. */
+	private active = 0;
+	/** The timer that drains the queue once the next token is available. */
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	/** The number of tasks let through so far. */
+	private processed = 0;
+	/** The time the last task waited in the queue. */
+	private lastWait = 0;
+	/** The total time all tasks waited in the queue. */
+	private totalWait = 0;
+
+	/**
+	 * @description Creates a new instance of the RateLimiter.
+	 * @param {RateLimitOptions} options The options of the rate limiter.
+	 */
+	constructor(options: RateLimitOptions) {
+		if (options.requests <= 0 || options.interval <= 0)
+			throw new Error("Rate limit requests and interval must be positive.");
+		this.options = options;
+		this.tokens = options.requests;
+	}
+
+	/**
+	 * @name stats
+	 * @description A snapshot of the current state of the rate limiter.
+	 * @returns {RateLimiterStats} The current stats.
+	 */
+	get stats(): RateLimiterStats {
+		this.refill();
+		return {
+			queued: this.queue.length,
+			active: this.active,
+			tokens: Math.floor(this.tokens),
+			processed: this.processed,
+			lastWait: this.lastWait,
+			totalWait: this.totalWait,
+		};
+	}
+
+	/**
+	 * @name schedule
+	 * @description Runs a task once a token is available and the concurrency allows it.
+	 * @param {Function} task The task to run.
+	 * @returns {Promise<T>} A promise that resolves with the result of the task.
+	 * @async
+	 */
+	async schedule<T>(task: () => Promise<T>): Promise<T> {
+		await new Promise<void>((resolve) => {
+			this.queue.push({ resolve, enqueuedAt: Date.now() });
+			this.drain();
+		});
+
+		try {
+			return await task();
+		} finally {
+			this.active--;
+			this.drain();
+		}
+	}
+
+	/**
+	 * @name refill
+	 * @description Adds the tokens accumulated since the last refill to the bucket.
+	 * @private
+	 */
+	private refill(): void {
+		const now = Date.now();
+		const rate = this.options.requests / this.options.interval;
+		this.tokens = Math.min(
+			this.options.requests,
+			this.tokens + (now - this.lastRefill) * rate,
+		);
+		this.lastRefill = now;
+	}
+
+	/**
+	 * @name drain
+	 * @description Lets queued tasks through while tokens and concurrency allow it.
+	 * @private
+	 */
+	private drain(): void {
+		this.refill();
+
+		const maxConcurrency =
+			this.options.maxConcurrency ?? Number.POSITIVE_INFINITY;
+		while (
+			this.queue.length > 0 &&
+			this.tokens >= 1 &&
+			this.active < maxConcurrency
+		) {
+			const next = this.queue.shift();
+			if (!next) break;
+
+			this.tokens--;
+			this.active++;
+			this.processed++;
+			this.lastWait = Date.now() - next.enqueuedAt;
+			this.totalWait += this.lastWait;
+			this.options.onWait?.(this.lastWait, this.queue.length);
+			next.resolve();
+		}
+
+		if (this.queue.length > 0 && this.tokens < 1 && !this.timer) {
+			const rate = this.options.requests / this.options.interval;
+			this.timer = setTimeout(
+				() => {
+					this.timer = null;
+					this.drain();
+				},
+				Math.ceil((1 - this.tokens) / rate),
+			);
+		}
+	}
+}
@@ -0,0 +1,128 @@
+/**
+ * @file Report.ts
+ * @module Report
+ * @description Class representing a report.
+ */
+
+import { Comment } from "./Comment.ts";
+import type { DiscuitClient } from "./DiscuitClient.ts";
+import { Post } from "./Post.ts";
+import { parseTime, timeSince } from "./time.ts";
+import type { CommentData, PostData, ReportData, TimeString } from "./types.ts";
+
+/**
+ * @name Report
+ * @description Represents a report made against a post or a comment.
+ * @example
+ * ```ts
+ * const { reports } = await client.getReports(community.id, { filter: "posts" });
+ * for (const report of reports) {
+ * 	if (report.target instanceof Post) await report.target.delete("mods");
+ * 	await report.dealWith("Removed the post.");
+ * }
+ * ```
+ */
+export class Report {
+	/** The Discuit client instance. */
+	private client: DiscuitClient;
+
+	/** The ID of the report. */
+	public readonly id!: number;
+	/** The ID of the community in which the report was made. */
+	public readonly communityId!: string;
+	/** If reporting a post, the ID of the post on which the report was made, otherwise null. */
+	public readonly postId!: string | null;
+
+	/** The reason why the report was made. */
+	public readonly reason!: string;
+	/** A description of the report. This is null if no description is given. */
+	public readonly description!: string | null;
+	/** The ID of the report reason. */
+	public readonly reasonId!: number;
+	/** Whether the report is on a post or a comment. */
+	public readonly type!: "post" | "comment";
+	/** The ID of the post or the comment that was reported. */
+	public readonly targetId!: string;
+
+	/** If an action was taken, a description of the action, otherwise null. */
+	public readonly actionTaken!: string | null;
+	/** If the report was dealt with, the time at which it was dealt with, otherwise null. */
+	public readonly dealtAt!: TimeString | null;
+	/** If the report was dealt with, the ID of the user by which it was dealt, otherwise null. */
+	public readonly dealtBy!: string | null;
+
+	/** The time that the report was created. */
+	public readonly createdAt!: TimeString;
+	/** The Comment or Post that the report is made against. */
+	public readonly target!: Post | Comment;
+
+	/**
+	 * @name constructor
+	 * @description Creates a new instance of the Report class.
+	 * @param {ReportData} data The data for the report.
+	 * @param {DiscuitClient} client The Discuit client instance.
+	 */
+	constructor(data: ReportData, client: DiscuitClient) {
+		this.client = client;
+
+		Object.assign(this, data, {
+			target:
+				data.type === "post"
+					? new Post(data.target as PostData, client)
+					: new Comment(data.target as CommentData, client),
+		});
+	}
+
+	/**
+	 * @name createdAtDate
+	 * @description The time at which the report was made, as a Date.
+	 * @returns {Date} The time.
+	 */
+	get createdAtDate(): Date {
+		return parseTime(this.createdAt);
+	}
+	/**
+	 * @name dealtAtDate
+	 * @description The time at which the report was dealt with, as a Date.
+	 * @returns {Date | null} The time, null if the report was not dealt with.
+	 */
+	get dealtAtDate(): Date | null {
+		return parseTime(this.dealtAt);
+	}
+	/**
+	 * @name age
+	 * @description How long ago the report was made.
+	 * @returns {number} The age in milliseconds.
+	 */
+	get age(): number {
+		return timeSince(this.createdAt);
+	}
+
+	/**
+	 * @name dealWith
+	 * @description Marks the report as dealt with. Only available to moderators and admins.
+	 * @param {string} [actionTaken] A description of the action taken.
+	 * @returns {Promise<Report>} A promise that resolves to the updated report.
+	 * @async
+	 */
+	async dealWith(actionTaken?: string): Promise<Report> {
+		const report = await this.client.dealWithReport(
+			this.communityId,
+			this.id,
+			actionTaken,
+		);
+		Object.assign(this, report);
+		return this;
+	}
+
+	/**
+	 * @name toJSON
+	 * @description Converts the report and its post or comment back to the data of the API, leaving out the client.
+	 * `client.hydrate` turns the data into a Report again.
+	 * @returns {ReportData} The data of the report.
+	 */
+	toJSON(): ReportData {
+		const { client, ...data }: Report = this;
+		return { ...data, target: this.target.toJSON() };
+	}
+}
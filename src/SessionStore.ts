@@ -0,0 +1,116 @@
+/**
+ * @file SessionStore.ts
+ * @module SessionStore
+ * @description Stores that persist the session of a DiscuitClient across restarts.
+ */
+
+/**
+ * @name SessionData
+ * @description The cookies that make up a session.
+ */
+export type SessionData = {
+	/** The SID cookie, null if there is no session. */
+	sid: string | null;
+	/** The CSRF token, null if none was issued yet. */
+	csrfToken: string | null;
+};
+
+/**
+ * @name SessionStore
+ * @description Persists a session. Implement this to keep sessions in a database, a keychain, etc.
+ * @example
+ * ```ts
+ * const store: SessionStore = {
+ * 	load: async () => JSON.parse((await redis.get("session")) ?? "null"),
+ * 	save: async (session) => void (await redis.set("session", JSON.stringify(session))),
+ * 	clear: async () => void (await redis.del("session")),
+ * };
+ * ```
+ */
+export interface SessionStore {
+	/** Loads the stored session, null if none was stored. */
+	load(): SessionData | null | Promise<SessionData | null>;
+	/** Stores a session, replacing the previous one. */
+	save(session: SessionData): void | Promise<void>;
+	/** Removes the stored session. */
+	clear(): void | Promise<void>;
+}
+
+/**
+ * @name MemorySessionStore
+ * @description Keeps the session in memory, eg. to share it between clients in one process.
+ */
+export class MemorySessionStore implements SessionStore {
+	/** The stored session. */
+	private session: SessionData | null;
+
+	/**
+	 * @description Creates a new instance of the MemorySessionStore.
+	 * @param {SessionData | null} [session] The initial session.
+	 */
+	constructor(session: SessionData | null = null) {
+		this.session = session;
+	}
+
+	load(): SessionData | null {
+		return this.session ? { ...this.session } : null;
+	}
+
+	save(session: SessionData): void {
+		this.session = { ...session };
+	}
+
+	clear(): void {
+		this.session = null;
+	}
+}
+
+/**
+ * @name FileSessionStore
+ * @description Keeps the session in a JSON file. Requires a runtime with `node:fs`, such as Node, Bun or Deno.
+ * @example
+ * ```ts
+ * const client = new DiscuitClient({
+ * 	sessionStore: new FileSessionStore("./session.json"),
+ * });
+ * ```
+ */
+export class FileSessionStore implements SessionStore {
+	/** The path of the JSON file. */
+	private readonly path: string;
+
+	/**
+	 * @description Creates a new instance of the FileSessionStore.
+	 * @param {string} path The path of the JSON file.
+	 */
+	constructor(path: string) {
+		this.path = path;
+	}
+
+	async load(): Promise<SessionData | null> {
+		const { readFile } = await import("node:fs/promises");
+		try {
+			const session = JSON.parse(await readFile(this.path, "utf8"));
+			return {
+				sid: session.sid ?? null,
+				csrfToken: session.csrfToken ?? null,
+			};
+		} catch (error) {
+			if ((error as { code?: string }).code === "ENOENT") return null;
+			throw error;
+		}
+	}
+
+	async save(session: SessionData): Promise<void> {
+		const { writeFile } = await import("node:fs/promises");
+		await writeFile(this.path, JSON.stringify(session), {
+			encoding: "utf8",
+			mode: 0o600,
+		});
+	}
+
+	async clear(): Promise<void> {
+		const { rm } = await import("node:fs/promises");
+		await rm(this.path, { force: true });
+	}
+}
@@ -1,12 +1,33 @@
+/**
+ * @file User.ts
+ * @module User
+ * @description Class representing a user.
+ */
+
+import { Comment } from "./Comment.ts";
 import type { DiscuitClient } from "./DiscuitClient.ts";
+import { Image } from "./Image.ts";
+import { Post } from "./Post.ts";
+import {
+	type RelativeTimeOptions,
+	formatRelativeTime,
+	parseTime,
+	timeSince,
+} from "./time.ts";
 import type {
 	BadgeData,
+	CommentFeed,
 	CommunityData,
-	ImageData,
+	NormalFeed,
 	TimeString,
 	UserData,
+	UserFeed,
 } from "./types.ts";
 
+/**
+ * @name User
+ * @description Represents a user.
+ */
 export class User {
 	private readonly client!: DiscuitClient;
 	/** The ID of the user. */
@@ -27,7 +48,7 @@ export class User {
 	/** If the user is an admin. */
 	public readonly isAdmin!: boolean;
 	/** If a profile picture was set, the profile picture of the user, otherwise null. */
-	public readonly proPic!: ImageData | null;
+	public readonly proPic!: Image | null;
 	/** The list of badges that the user has, can be empty. */
 	public readonly badges!: BadgeData[];
 
@@ -70,19 +91,187 @@ export class User {
 	/**
 	 * @name constructor
 	 * @description Create a new User object.
-	 * @param client The client that created this user.
-	 * @param userData The data of the user.
+	 * @param {UserData} data The data of the user.
+	 * @param {DiscuitClient} client The client that created this user.
 	 * @example
 	 * ```ts
 	 * import { User } from "discuit";
 	 *
-	 * const user = new User(client, UserData);
+	 * const user = new User(UserData, client);
 	 * console.log(user.username);
 	 */
-	constructor(client: DiscuitClient, userData: UserData) {
+	constructor(data: UserData, client: DiscuitClient) {
 		this.client = client;
-		Object.assign(this, userData);
+		Object.assign(this, data);
+
+		if (data.proPic) this.proPic = new Image(data.proPic, client);
 	}
 
-	// TODO: Add methods to interact with the user.
+	/**
+	 * @name createdAtDate
+	 * @description The time at which the account was created, as a Date.
+	 * @returns {Date} The time.
+	 */
+	get createdAtDate(): Date {
+		return parseTime(this.createdAt);
+	}
+	/**
+	 * @name deletedAtDate
+	 * @description The time at which the account was deleted, as a Date.
+	 * @returns {Date | null} The time, null if the account was not deleted.
+	 */
+	get deletedAtDate(): Date | null {
+		return parseTime(this.deletedAt);
+	}
+	/**
+	 * @name bannedAtDate
+	 * @description The time at which the user was banned, as a Date.
+	 * @returns {Date | null} The time, null if the user is not banned.
+	 */
+	get bannedAtDate(): Date | null {
+		return parseTime(this.bannedAt);
+	}
+	/**
+	 * @name emailConfirmedAtDate
+	 * @description The time at which the email address was confirmed, as a Date.
+	 * @returns {Date | null} The time, null if it was not confirmed.
+	 */
+	get emailConfirmedAtDate(): Date | null {
+		return parseTime(this.emailConfirmedAt);
+	}
+	/**
+	 * @name age
+	 * @description How long ago the account was created.
+	 * @returns {number} The age in milliseconds.
+	 */
+	get age(): number {
+		return timeSince(this.createdAt);
+	}
+	/**
+	 * @name relativeTime
+	 * @description Formats the time at which the account was created relative to now, eg. "3 hours ago".
+	 * @param {RelativeTimeOptions} [options] The time to format relative to, the locale and the style.
+	 * @returns {string} The formatted time.
+	 */
+	relativeTime(options?: RelativeTimeOptions): string {
+		return formatRelativeTime(this.createdAt, options);
+	}
+
+	/**
+	 * @name getFeed
+	 * @description Fetches the posts and comments on the profile of the user.
+	 * @param {string} [next] The next page token.
+	 * @param {number} [limit] The maximum number of items to fetch.
+	 * @returns {Promise<UserFeed>} A promise that resolves with the feed.
+	 * @async
+	 */
+	async getFeed(next?: string, limit?: number): Promise<UserFeed> {
+		return this.client.getUserFeed(this.username, { next, limit });
+	}
+	/**
+	 * @name getPosts
+	 * @description Fetches the posts of the user.
+	 * @param {string} [next] The next page token.
+	 * @param {number} [limit] The maximum number of posts to fetch.
+	 * @returns {Promise<NormalFeed>} A promise that resolves with the posts.
+	 * @async
+	 */
+	async getPosts(next?: string, limit?: number): Promise<NormalFeed> {
+		const feed = await this.client.getUserFeed(this.username, {
+			filter: "posts",
+			next,
+			limit,
+		});
+		return {
+			posts: feed.items.filter((item): item is Post => item instanceof Post),
+			next: feed.next,
+		};
+	}
+	/**
+	 * @name getComments
+	 * @description Fetches the comments of the user.
+	 * @param {string} [next] The next page token.
+	 * @param {number} [limit] The maximum number of comments to fetch.
+	 * @returns {Promise<CommentFeed>} A promise that resolves with the comments.
+	 * @async
+	 */
+	async getComments(next?: string, limit?: number): Promise<CommentFeed> {
+		const feed = await this.client.getUserFeed(this.username, {
+			filter: "comments",
+			next,
+			limit,
+		});
+		return {
+			comments: feed.items.filter(
+				(item): item is Comment => item instanceof Comment,
+			),
+			next: feed.next,
+		};
+	}
+	/**
+	 * @name refresh
+	 * @description Fetches the user again and updates this instance. The authenticated user is fetched with its
+	 * private fields, such as `email`.
+	 * @returns {Promise<User>} A promise that resolves to the updated user.
+	 * @async
+	 */
+	async refresh(): Promise<User> {
+		const self =
+			this.client.authenticatedUsername?.toLowerCase() ===
+			this.username.toLowerCase();
+		const user = await this.client.getUser(self ? undefined : this.username);
+		Object.assign(this, user);
+		return this;
+	}
+	/**
+	 * @name mute
+	 * @description Mutes the user for the authenticated user.
+	 * @returns {Promise<void>} A promise that resolves once the user was muted.
+	 * @async
+	 */
+	async mute(): Promise<void> {
+		await this.client.muteUser(this.id);
+	}
+	/**
+	 * @name unmute
+	 * @description Unmutes the user for the authenticated user.
+	 * @returns {Promise<void>} A promise that resolves once the user was unmuted.
+	 * @async
+	 */
+	async unmute(): Promise<void> {
+		await this.client.unmuteUser(this.id);
+	}
+	/**
+	 * @name ban
+	 * @description Bans the user site-wide. Only available to admins.
+	 * @returns {Promise<User>} A promise that resolves to the banned user.
+	 * @async
+	 */
+	async ban(): Promise<User> {
+		const user = await this.client.banUser(this.username);
+		Object.assign(this, user);
+		return this;
+	}
+	/**
+	 * @name unban
+	 * @description Unbans the user site-wide. Only available to admins.
+	 * @returns {Promise<User>} A promise that resolves to the unbanned user.
+	 * @async
+	 */
+	async unban(): Promise<User> {
+		const user = await this.client.unbanUser(this.username);
+		Object.assign(this, user);
+		return this;
+	}
+
+	/**
+	 * @name toJSON
+	 * @description Converts the user back to the data of the API, leaving out the client.
+	 * `client.hydrate` turns the data into a User again.
+	 * @returns {UserData} The data of the user.
+	 */
+	toJSON(): UserData {
+		const { client, ...data }: User = this;
+		return { ...data, proPic: this.proPic?.toJSON() ?? null };
+	}
 }
@@ -0,0 +1,574 @@
+/**
+ * @file Watcher.ts
+ * @module Watcher
+ * @description Polls notifications and feeds and emits events for everything new.
+ */
+
+import type { Comment } from "./Comment.ts";
+import type { DiscuitClient, GetPostsOptions } from "./DiscuitClient.ts";
+import type { Post } from "./Post.ts";
+import type { Notification, TimeString } from "./types.ts";
+
+/**
+ * @name WatcherEvents
+ * @description The events emitted by a watcher and the arguments of their listeners.
+ */
+export type WatcherEvents = {
+	/** Any new notification, emitted before the event for its type. */
+	notification: [notification: Notification];
+	/** A new comment on a post of the authenticated user. */
+	newComment: [notification: Extract<Notification, { type: "new_comment" }>];
+	/** A reply to a comment of the authenticated user. */
+	reply: [notification: Extract<Notification, { type: "comment_reply" }>];
+	/** New votes on a post or comment of the authenticated user. */
+	newVotes: [notification: Extract<Notification, { type: "new_votes" }>];
+	/** A post of the authenticated user was deleted by a moderator or admin. */
+	deletedPost: [notification: Extract<Notification, { type: "deleted_post" }>];
+	/** The authenticated user received a badge. */
+	newBadge: [notification: Extract<Notification, { type: "new_badge" }>];
+	/** The authenticated user was made a moderator of a community. */
+	modAdd: [notification: Extract<Notification, { type: "mod_add" }>];
+	/** A new post in one of the watched feeds. */
+	newPost: [post: Post];
+	/** A new comment on a post in one of the watched comment feeds. */
+	comment: [comment: Comment];
+	/** A poll failed. The watcher keeps polling. */
+	error: [error: unknown];
+};
+
+/**
+ * @name WatcherStreamState
+ * @description The high-water mark of a single notification or post stream.
+ */
+export type WatcherStreamState = {
+	/** The creation time of the newest item seen. */
+	since: TimeString;
+	/** The keys of the items seen at exactly that time. */
+	keys: string[];
+};
+
+/**
+ * @name WatcherState
+ * @description The high-water marks of a watcher, persisted so that restarts don't replay old events.
+ */
+export type WatcherState = {
+	/** The high-water mark of the notifications. */
+	notifications: WatcherStreamState | null;
+	/** The high-water marks of the watched feeds and comment feeds, by feed key. */
+	feeds: Record<string, WatcherStreamState>;
+};
+
+/**
+ * @name WatcherStateStore
+ * @description Persists the state of a watcher, like a SessionStore does for sessions.
+ */
+export interface WatcherStateStore {
+	/** Loads the stored state, null if none was stored. */
+	load(): WatcherState | null | Promise<WatcherState | null>;
+	/** Stores the state, replacing the previous one. */
+	save(state: WatcherState): void | Promise<void>;
+}
+
+/**
+ * @name WatchOptions
+ * @description Configures what a watcher polls and how often.
+ */
+export interface WatchOptions {
+	/** How often to poll notifications in milliseconds, or false to not poll them. Defaults to 30000. */
+	notificationInterval?: number | false;
+	/** Whether to mark notifications as seen once their events were emitted. Defaults to false. */
+	markSeen?: boolean;
+	/** The feeds to poll for new posts. They are always fetched sorted by latest. */
+	feeds?: Omit<GetPostsOptions, "sort" | "next" | "comments">[];
+	/** How often to poll the feeds in milliseconds. Defaults to 60000. */
+	feedInterval?: number;
+	/** The feeds whose posts are polled for new comments. They are always fetched sorted by activity. */
+	commentFeeds?: Omit<GetPostsOptions, "sort" | "next" | "comments">[];
+	/** How often to poll the comment feeds in milliseconds. Defaults to 60000. */
+	commentInterval?: number;
+	/** Whether to emit the items that already exist when the watcher first starts without state. Defaults to false. */
+	emitExisting?: boolean;
+	/** The store the high-water marks are persisted in. They are only kept in memory if omitted. */
+	store?: WatcherStateStore;
+}
+
+/** An item of a stream with the creation time and key its high-water mark is computed from. */
+type StreamItem<T> = { item: T; createdAt: TimeString; key: string };
+
+/**
+ * @name Watcher
+ * @description Polls notifications and feeds of a client and emits typed events for new items.
+ * @example
+ * ```ts
+ * const watcher = client.watch({ feeds: [{ feed: "community", communityId }] });
+ * watcher.on("reply", ({ notif }) => console.log(`${notif.commentAuthor} replied.`));
+ * watcher.on("newPost", (post) => console.log(post.title));
+ * await watcher.start();
+ * // ...
+ * await watcher.stop();
+ * ```
+ */
+export class Watcher {
+	/** The client to poll with. */
+	private readonly client: DiscuitClient;
+	/** The options of the watcher. */
+	private readonly options: WatchOptions;
+	/** The listeners, by event. */
+	private readonly listeners: {
+		[Event in keyof WatcherEvents]?: ((
+			...args: WatcherEvents[Event]
+		) => void | Promise<void>)[];
+	} = {};
+	/** The high-water marks of the watcher. */
+	private state: WatcherState = { notifications: null, feeds: {} };
+	/** The pending poll timers. */
+	private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+	/** The polls in flight. */
+	private readonly polls = new Set<Promise<void>>();
+	/** Whether the watcher is running. */
+	private running = false;
+
+	/**
+	 * @description Creates a new instance of the Watcher. Use `DiscuitClient.watch` instead.
+	 * @param {DiscuitClient} client The client to poll with.
+	 * @param {WatchOptions} options The options of the watcher.
+	 */
+	constructor(client: DiscuitClient, options: WatchOptions = {}) {
+		this.client = client;
+		this.options = options;
+	}
+
+	/**
+	 * @name isRunning
+	 * @description Whether the watcher is polling.
+	 * @returns {boolean} True if the watcher was started and not stopped.
+	 */
+	get isRunning(): boolean {
+		return this.running;
+	}
+
+	/**
+	 * @name on
+	 * @description Adds a listener for an event.
+	 * @param {string} event The event to listen for.
+	 * @param {Function} listener The listener.
+	 * @returns {Watcher} The watcher, for chaining.
+	 */
+	on<Event extends keyof WatcherEvents>(
+		event: Event,
+		listener: (...args: WatcherEvents[Event]) => void | Promise<void>,
+	): this {
+		this.listeners[event] ??= [];
+		this.listeners[event]?.push(listener);
+		return this;
+	}
+
+	/**
+	 * @name off
+	 * @description Removes a listener for an event.
+	 * @param {string} event The event the listener was added for.
+	 * @param {Function} listener The listener.
+	 * @returns {Watcher} The watcher, for chaining.
+	 */
+	off<Event extends keyof WatcherEvents>(
+		event: Event,
+		listener: (...args: WatcherEvents[Event]) => void | Promise<void>,
+	): this {
+		const listeners = this.listeners[event];
+		if (listeners) {
+			const index = listeners.indexOf(listener);
+			if (index !== -1) listeners.splice(index, 1);
+		}
+		return this;
+	}
+
+	/**
+	 * @name emit
+	 * @description Calls the listeners of an event one after another, waiting for async listeners.
+	 * Errors thrown or rejected by listeners are emitted as "error"; errors of "error" listeners are ignored.
+	 * @param {string} event The event to emit.
+	 * @param {...any} args The arguments of the listeners.
+	 * @returns {Promise<void>} A promise that resolves once every listener finished. It never rejects.
+	 * @private
+	 * @async
+	 */
+	private async emit<Event extends keyof WatcherEvents>(
+		event: Event,
+		...args: WatcherEvents[Event]
+	): Promise<void> {
+		for (const listener of [...(this.listeners[event] ?? [])]) {
+			try {
+				await listener(...args);
+			} catch (error) {
+				if (event !== "error") await this.emit("error", error);
+			}
+		}
+	}
+
+	/**
+	 * @name start
+	 * @description Loads the persisted state and starts polling.
+	 * @returns {Promise<void>} A promise that resolves once the watcher started.
+	 * @async
+	 */
+	async start(): Promise<void> {
+		if (this.running) return;
+		this.running = true;
+
+		const state = await this.options.store?.load();
+		if (state) this.state = state;
+
+		const notificationInterval = this.options.notificationInterval ?? 30_000;
+		if (notificationInterval !== false)
+			this.schedule(() => this.pollNotifications(), notificationInterval);
+
+		for (const feed of this.options.feeds ?? []) {
+			this.schedule(
+				() => this.pollFeed(feed),
+				this.options.feedInterval ?? 60_000,
+			);
+		}
+
+		for (const feed of this.options.commentFeeds ?? []) {
+			this.schedule(
+				() => this.pollComments(feed),
+				this.options.commentInterval ?? 60_000,
+			);
+		}
+	}
+
+	/**
+	 * @name stop
+	 * @description Stops polling and waits for the polls in flight to finish.
+	 * @returns {Promise<void>} A promise that resolves once the watcher stopped.
+	 * @async
+	 */
+	async stop(): Promise<void> {
+		this.running = false;
+		for (const timer of this.timers) clearTimeout(timer);
+		this.timers.clear();
+		await Promise.all(this.polls);
+	}
+
+	/**
+	 * @name schedule
+	 * @description Runs a poll now and then repeatedly, waiting the interval between the end of one and the next.
+	 * @param {Function} poll The poll to run.
+	 * @param {number} interval The interval in milliseconds.
+	 * @private
+	 */
+	private schedule(poll: () => Promise<void>, interval: number): void {
+		if (!this.running) return;
+
+		const run = poll()
+			.catch((error) => this.emit("error", error))
+			.finally(() => {
+				this.polls.delete(run);
+				if (!this.running) return;
+
+				const timer = setTimeout(() => {
+					this.timers.delete(timer);
+					this.schedule(poll, interval);
+				}, interval);
+				this.timers.add(timer);
+			});
+		this.polls.add(run);
+	}
+
+	/**
+	 * @name filterNew
+	 * @description Picks the items newer than the high-water mark of a stream.
+	 * @param {WatcherStreamState | null} stream The high-water mark of the stream.
+	 * @param {Array} items The items, each with its creation time and a key.
+	 * @returns {Array} The new items, oldest first.
+	 * @private
+	 */
+	private filterNew<T>(
+		stream: WatcherStreamState | null,
+		items: StreamItem<T>[],
+	): StreamItem<T>[] {
+		const since = stream ? Date.parse(stream.since) : Number.NEGATIVE_INFINITY;
+		const seen = new Set(stream?.keys);
+
+		return items
+			.filter(({ createdAt, key }) => {
+				const time = Date.parse(createdAt);
+				return time > since || (time === since && !seen.has(key));
+			})
+			.sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+	}
+
+	/**
+	 * @name advance
+	 * @description Advances the high-water mark of a stream past the items that were handled.
+	 * @param {WatcherStreamState | null} stream The high-water mark of the stream.
+	 * @param {Array} handled The handled items, oldest first, as returned by `filterNew` or a prefix of it.
+	 * @returns {WatcherStreamState} The advanced high-water mark.
+	 * @private
+	 */
+	private advance<T>(
+		stream: WatcherStreamState | null,
+		handled: StreamItem<T>[],
+	): WatcherStreamState {
+		// An empty stream has nothing to replay, so everything after it is new.
+		if (handled.length === 0)
+			return stream ?? { since: new Date(0).toISOString(), keys: [] };
+
+		const newest = handled[handled.length - 1].createdAt;
+		const newestTime = Date.parse(newest);
+		const keys = handled
+			.filter(({ createdAt }) => Date.parse(createdAt) === newestTime)
+			.map(({ key }) => key);
+		if (stream && Date.parse(stream.since) === newestTime)
+			keys.push(...stream.keys);
+
+		return { since: newest, keys };
+	}
+
+	/**
+	 * @name emitNew
+	 * @description Emits the items newer than the high-water mark of a stream, oldest first, and saves the mark past
+	 * the emitted ones. Without a mark the existing items are skipped instead, unless `emitExisting` is set.
+	 * The mark is saved even if the watcher stops or emitting fails, so that no item is lost or emitted twice.
+	 * @param {string | null} key The key of the feed in `WatcherState.feeds`, or null for the notifications.
+	 * @param {WatcherStreamState | null} previous The high-water mark of the stream.
+	 * @param {Array} items The fetched items, each with its creation time and a key.
+	 * @param {Function} emit Emits the events for an item.
+	 * @returns {Promise<void>} A promise that resolves once the mark was saved.
+	 * @private
+	 * @async
+	 */
+	private async emitNew<T>(
+		key: string | null,
+		previous: WatcherStreamState | null,
+		items: StreamItem<T>[],
+		emit: (item: T) => Promise<void>,
+	): Promise<void> {
+		const fresh = this.filterNew(previous, items);
+		const emitting = previous !== null || this.options.emitExisting;
+		const handled = emitting ? [] : fresh;
+		try {
+			if (emitting) {
+				for (const entry of fresh) {
+					if (!this.running) break;
+					await emit(entry.item);
+					handled.push(entry);
+				}
+			}
+		} finally {
+			const stream = this.advance(previous, handled);
+			await this.saveState(
+				key === null
+					? { ...this.state, notifications: stream }
+					: { ...this.state, feeds: { ...this.state.feeds, [key]: stream } },
+			);
+		}
+	}
+
+	/**
+	 * @name pollNotifications
+	 * @description Fetches the notifications, paging back to the high-water mark, and emits events for the new ones.
+	 * @private
+	 * @async
+	 */
+	private async pollNotifications(): Promise<void> {
+		const previous = this.state.notifications;
+		const since = previous
+			? Date.parse(previous.since)
+			: Number.NEGATIVE_INFINITY;
+
+		// Pages are fetched until the mark is reached, so that nothing between polls is skipped.
+		const notifications: Notification[] = [];
+		let next: string | undefined;
+		for (;;) {
+			const feed = await this.client.getNotifications({ next });
+			notifications.push(...feed.items);
+
+			const reachedMark = feed.items.some(
+				(item) => Date.parse(item.createdAt) < since,
+			);
+			if (!previous || reachedMark || !feed.next) break;
+			next = feed.next;
+		}
+
+		await this.emitNew(
+			null,
+			previous,
+			notifications.map((notification) => ({
+				item: notification,
+				createdAt: notification.createdAt,
+				key: `${notification.id}:${notification.createdAt}`,
+			})),
+			async (notification) => {
+				await this.emitNotification(notification);
+				// The notification was handled, so failing to mark it as seen doesn't emit it again.
+				if (this.options.markSeen && !notification.seen)
+					await this.client
+						.markNotificationSeen(notification.id)
+						.catch((error) => this.emit("error", error));
+			},
+		);
+	}
+
+	/**
+	 * @name emitNotification
+	 * @description Emits the events for a notification.
+	 * @param {Notification} notification The notification.
+	 * @returns {Promise<void>} A promise that resolves once the listeners finished.
+	 * @private
+	 * @async
+	 */
+	private async emitNotification(notification: Notification): Promise<void> {
+		await this.emit("notification", notification);
+		switch (notification.type) {
+			case "new_comment":
+				await this.emit("newComment", notification);
+				break;
+			case "comment_reply":
+				await this.emit("reply", notification);
+				break;
+			case "new_votes":
+				await this.emit("newVotes", notification);
+				break;
+			case "deleted_post":
+				await this.emit("deletedPost", notification);
+				break;
+			case "new_badge":
+				await this.emit("newBadge", notification);
+				break;
+			case "mod_add":
+				await this.emit("modAdd", notification);
+				break;
+		}
+	}
+
+	/**
+	 * @name feedKey
+	 * @description Computes the key the high-water mark of a feed is stored by.
+	 * @param {GetPostsOptions} feed The feed.
+	 * @returns {string} The key.
+	 * @private
+	 */
+	private feedKey(
+		feed: Omit<GetPostsOptions, "sort" | "next" | "comments">,
+	): string {
+		return `${feed.feed ?? "all"}:${feed.communityId ?? ""}:${feed.filter ?? ""}`;
+	}
+
+	/**
+	 * @name pollFeed
+	 * @description Fetches the latest posts of a feed, paging back to the high-water mark, and emits events for the new ones.
+	 * @param {GetPostsOptions} feed The feed to poll.
+	 * @private
+	 * @async
+	 */
+	private async pollFeed(
+		feed: Omit<GetPostsOptions, "sort" | "next" | "comments">,
+	): Promise<void> {
+		const key = this.feedKey(feed);
+		const previous = this.state.feeds[key] ?? null;
+
+		const since = previous
+			? Date.parse(previous.since)
+			: Number.NEGATIVE_INFINITY;
+
+		// Pages are fetched until the mark is reached, so that nothing between polls is skipped.
+		const posts: Post[] = [];
+		let next: string | undefined;
+		for (;;) {
+			const result = await this.client.getPosts({
+				...feed,
+				sort: "latest",
+				next,
+			});
+			posts.push(...result.posts);
+
+			const reachedMark = result.posts.some(
+				(post) => Date.parse(post.createdAt) < since,
+			);
+			if (!previous || reachedMark || !("next" in result) || !result.next)
+				break;
+			next = result.next;
+		}
+
+		await this.emitNew(
+			key,
+			previous,
+			posts.map((post) => ({
+				item: post,
+				createdAt: post.createdAt,
+				key: post.id,
+			})),
+			(post) => this.emit("newPost", post),
+		);
+	}
+
+	/**
+	 * @name pollComments
+	 * @description Fetches the posts of a feed with activity since the high-water mark, paging back to it, walks
+	 * their comments and emits events for the new ones.
+	 * @param {GetPostsOptions} feed The feed whose comments to poll.
+	 * @private
+	 * @async
+	 */
+	private async pollComments(
+		feed: Omit<GetPostsOptions, "sort" | "next" | "comments">,
+	): Promise<void> {
+		const key = `comments:${this.feedKey(feed)}`;
+		const previous = this.state.feeds[key] ?? null;
+		const since = previous
+			? Date.parse(previous.since)
+			: Number.NEGATIVE_INFINITY;
+
+		// Pages are fetched until the mark is reached, so that nothing between polls is skipped.
+		const active: Post[] = [];
+		let next: string | undefined;
+		for (;;) {
+			const result = await this.client.getPosts({
+				...feed,
+				sort: "activity",
+				next,
+			});
+			const recent = result.posts.filter(
+				(post) => Date.parse(post.lastActivityAt) >= since,
+			);
+			active.push(...recent);
+
+			const reachedMark = recent.length < result.posts.length;
+			if (!previous || reachedMark || !("next" in result) || !result.next)
+				break;
+			next = result.next;
+		}
+
+		// The comments of a post are not sorted by time, so all of them are walked.
+		const comments: Comment[] = [];
+		for (const post of active) {
+			for await (const comment of post.iterateComments()) {
+				if (Date.parse(comment.createdAt) >= since) comments.push(comment);
+			}
+		}
+
+		await this.emitNew(
+			key,
+			previous,
+			comments.map((comment) => ({
+				item: comment,
+				createdAt: comment.createdAt,
+				key: comment.id,
+			})),
+			(comment) => this.emit("comment", comment),
+		);
+	}
+
+	/**
+	 * @name saveState
+	 * @description Updates the high-water marks and persists them.
+	 * @param {WatcherState} state The new state.
+	 * @private
+	 * @async
+	 */
+	private async saveState(state: WatcherState): Promise<void> {
+		this.state = state;
+		await this.options.store?.save(state);
+	}
+}
@@ -0,0 +1,44 @@
+/**
+ * @file cookies.ts
+ * @module cookies
+ * @description Helpers for reading cookies from response headers across runtimes.
+ */
+
+/**
+ * @name getSetCookies
+ * @description Gets every Set-Cookie header of a response as a separate string.
+ * Uses the standard `Headers.getSetCookie()` where available, then Bun's legacy `Headers.getAll()`, and
+ * otherwise splits the combined header value.
+ * @param {Headers} headers The headers of the response.
+ * @returns {string[]} The values of the Set-Cookie headers.
+ */
+export function getSetCookies(headers: Headers): string[] {
+	const withExtensions = headers as Headers & {
+		getSetCookie?: () => string[];
+		getAll?: (name: string) => string[];
+	};
+
+	if (typeof withExtensions.getSetCookie === "function")
+		return withExtensions.getSetCookie();
+	if (typeof withExtensions.getAll === "function")
+		return withExtensions.getAll("set-cookie");
+
+	const combined = headers.get("set-cookie");
+	if (!combined) return [];
+	// Cookies are joined with ", ", which also appears in Expires dates, so only split before a new "name=".
+	return combined.split(/,\s*(?=[^;,=\s]+=)/);
+}
+
+/**
+ * @name getCookieValue
+ * @description Gets the value of a cookie from a Set-Cookie header value.
+ * @param {string} cookie The value of the Set-Cookie header.
+ * @param {string} name The name of the cookie.
+ * @returns {string | null} The value of the cookie, null if the header sets another cookie.
+ */
+export function getCookieValue(cookie: string, name: string): string | null {
+	const pair = cookie.split(";")[0].trim();
+	const separator = pair.indexOf("=");
+	if (separator === -1 || pair.slice(0, separator) !== name) return null;
+	return pair.slice(separator + 1);
+}
@@ -0,0 +1,246 @@
+/**
+ * @file errors.ts
+ * @module errors
+ * @description Error classes thrown by the DiscuitClient when a request fails.
+ */
+
+import type { ValidationIssue } from "./schema";
+
+/**
+ * @name ApiErrorBody
+ * @description The JSON body the Discuit API returns alongside an error status.
+ */
+export type ApiErrorBody = {
+	/** The HTTP status code. */
+	status?: number;
+	/** A machine-readable error code, eg. "post_not_found". */
+	code?: string;
+	/** A human-readable error message. */
+	message?: string;
+};
+
+/**
+ * @name DiscuitApiError
+ * @description Base class for every error thrown by a failed API request.
+ * @example
+ * ```ts
+ * try {
+ * 	await client.getPost("5ZiPe34m");
+ * } catch (error) {
+ * 	if (error instanceof DiscuitNotFoundError) console.log("No such post.");
+ * 	else throw error;
+ * }
+ * ```
+ */
+export class DiscuitApiError extends Error {
+	/** The HTTP status code of the response, null if no response was received. */
+	public readonly status: number | null;
+	/** The error code returned by the API, null if none was returned. */
+	public readonly code: string | null;
+	/** The error message returned by the API, null if none was returned. */
+	public readonly apiMessage: string | null;
+	/** The HTTP method of the failed request. */
+	public readonly method: string;
+	/** The full URL of the failed request. */
+	public readonly url: string;
+	/** The number of seconds to wait before retrying, from the Retry-After header, null if absent. */
+	public readonly retryAfter: number | null;
+
+	/**
+	 * @description Creates a new instance of the DiscuitApiError.
+	 * @param {string} method The HTTP method of the failed request.
+	 * @param {string} url The full URL of the failed request.
+	 * @param {number | null} status The HTTP status code of the response.
+	 * @param {ApiErrorBody | null} body The parsed error body of the response.
+	 * @param {number | null} [retryAfter] The number of seconds given by the Retry-After header.
+	 * @param {unknown} [cause] The underlying error, if any.
+	 */
+	constructor(
+		method: string,
+		url: string,
+		status: number | null,
+		body: ApiErrorBody | null,
+		retryAfter: number | null = null,
+		cause?: unknown,
+	) {
+		const detail = body?.message || body?.code;
+		super(
+			`${method} ${url} failed${status !== null ? ` with status ${status}` : ""}${detail ? `: ${detail}` : ""}`,
+			{ cause },
+		);
+		this.name = new.target.name;
+		this.method = method;
+		this.url = url;
+		this.status = status;
+		this.code = body?.code ?? null;
+		this.apiMessage = body?.message ?? null;
+		this.retryAfter = retryAfter;
+	}
+}
+
+/**
+ * @name DiscuitNetworkError
+ * @description Thrown when no response was received, eg. because of a DNS failure or a dropped connection.
+ */
+export class DiscuitNetworkError extends DiscuitApiError {
+	constructor(method: string, url: string, cause: unknown) {
+		super(method, url, null, null, null, cause);
+	}
+}
+
+/**
+ * @name DiscuitValidationError
+ * @description Thrown when the API rejects the request as invalid (400 or 422).
+ */
+export class DiscuitValidationError extends DiscuitApiError {}
+
+/**
+ * @name DiscuitUnauthorizedError
+ * @description Thrown when the request requires authentication (401).
+ */
+export class DiscuitUnauthorizedError extends DiscuitApiError {}
+
+/**
+ * @name DiscuitForbiddenError
+ * @description Thrown when the authenticated user is not allowed to perform the request (403).
+ */
+export class DiscuitForbiddenError extends DiscuitApiError {}
+
+/**
+ * @name DiscuitNotFoundError
+ * @description Thrown when the requested resource does not exist (404).
+ */
+export class DiscuitNotFoundError extends DiscuitApiError {}
+
+/**
+ * @name DiscuitRateLimitError
+ * @description Thrown when the client has sent too many requests (429).
+ */
+export class DiscuitRateLimitError extends DiscuitApiError {}
+
+/**
+ * @name DiscuitServerError
+ * @description Thrown when the API fails with a 5xx status.
+ */
+export class DiscuitServerError extends DiscuitApiError {}
+
+/**
+ * @name DiscuitSchemaError
+ * @description Thrown in strict validation mode when a response does not match its schema.
+ */
+export class DiscuitSchemaError extends DiscuitApiError {
+	/** The missing and mistyped fields of the response. */
+	public readonly issues: ValidationIssue[];
+
+	/**
+	 * @description Creates a new instance of the DiscuitSchemaError.
+	 * @param {string} method The HTTP method of the request.
+	 * @param {string} url The full URL of the request.
+	 * @param {number} status The HTTP status code of the response.
+	 * @param {ValidationIssue[]} issues The missing and mistyped fields of the response.
+	 */
+	constructor(
+		method: string,
+		url: string,
+		status: number,
+		issues: ValidationIssue[],
+	) {
+		super(method, url, status, {
+			message: `unexpected response at ${issues
+				.map((issue) => `${issue.path} (${issue.message})`)
+				.join(", ")}`,
+		});
+		this.issues = issues;
+	}
+}
+
+/**
+ * @name DiscuitImageError
+ * @description Thrown before uploading when an image is not a JPEG, WebP or PNG image or is too large.
+ */
+export class DiscuitImageError extends Error {
+	/** The detected MIME type of the image, null if it is not a supported image format. */
+	public readonly mimeType: string | null;
+	/** The size of the image in bytes, or the number of bytes read before it exceeded the limit. */
+	public readonly size: number;
+
+	/**
+	 * @description Creates a new instance of the DiscuitImageError.
+	 * @param {string} message The reason the image was rejected.
+	 * @param {string | null} mimeType The detected MIME type of the image.
+	 * @param {number} size The size of the image in bytes.
+	 */
+	constructor(message: string, mimeType: string | null, size: number) {
+		super(message);
+		this.name = new.target.name;
+		this.mimeType = mimeType;
+		this.size = size;
+	}
+}
+
+/**
+ * @name parseRetryAfter
+ * @description Parses a Retry-After header, given either in seconds or as an HTTP date.
+ * @param {string | null} value The value of the header.
+ * @returns {number | null} The number of seconds to wait, null if the header is absent or invalid.
+ */
+export function parseRetryAfter(value: string | null): number | null {
+	if (!value) return null;
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+	const date = Date.parse(value);
+	if (Number.isNaN(date)) return null;
+	return Math.max(0, (date - Date.now()) / 1000);
+}
+
+/**
+ * @name createApiError
+ * @description Builds the matching DiscuitApiError subclass for a failed response.
+ * @param {string} method The HTTP method of the request.
+ * @param {string} url The full URL of the request.
+ * @param {Response} response The failed response.
+ * @returns {Promise<DiscuitApiError>} A promise that resolves with the error to throw.
+ * @async
+ */
+export async function createApiError(
+	method: string,
+	url: string,
+	response: Response,
+): Promise<DiscuitApiError> {
+	let body: ApiErrorBody | null = null;
+	const text = await response.text().catch(() => "");
+	try {
+		const parsed = JSON.parse(text);
+		if (parsed && typeof parsed === "object") body = parsed as ApiErrorBody;
+	} catch {
+		if (text) body = { message: text };
+	}
+
+	const { status } = response;
+	const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+	switch (status) {
+		case 400:
+		case 422:
+			return new DiscuitValidationError(method, url, status, body, retryAfter);
+		case 401:
+			return new DiscuitUnauthorizedError(
+				method,
+				url,
+				status,
+				body,
+				retryAfter,
+			);
+		case 403:
+			return new DiscuitForbiddenError(method, url, status, body, retryAfter);
+		case 404:
+			return new DiscuitNotFoundError(method, url, status, body, retryAfter);
+		case 429:
+			return new DiscuitRateLimitError(method, url, status, body, retryAfter);
+	}
+
+	if (status >= 500)
+		return new DiscuitServerError(method, url, status, body, retryAfter);
+	return new DiscuitApiError(method, url, status, body, retryAfter);
+}
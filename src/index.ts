@@ -1,3 +1,82 @@
-export { type ApiConfig, DiscuitClient } from "./DiscuitClient";
+export {
+	type ApiConfig,
+	DiscuitClient,
+	type FetchFunction,
+	type GetPostsOptions,
+	type RequestOptions,
+} from "./DiscuitClient";
+export type { Interceptor, RequestContext } from "./interceptors";
+export type { RateLimitOptions, RateLimiterStats } from "./RateLimiter";
+export type { RetryOptions, RetryOverride } from "./retry";
+export { type IterateOptions, type Page, paginate } from "./paginate";
+export {
+	type Infer,
+	type Schema,
+	type ValidationIssue,
+	type ValidationMode,
+	validate,
+} from "./schema";
+export * as schemas from "./schemas";
+export {
+	type RelativeTimeOptions,
+	formatRelativeTime,
+	parseTime,
+	timeSince,
+} from "./time";
+export {
+	type ImageSource,
+	type UploadImageOptions,
+	defaultMaxImageSize,
+} from "./upload";
+export {
+	FileSessionStore,
+	MemorySessionStore,
+	type SessionData,
+	type SessionStore,
+} from "./SessionStore";
+export {
+	type Bot,
+	type BotCommand,
+	type BotOptions,
+	type CommandContext,
+	parseArgs,
+} from "./Bot";
 export type { Comment } from "./Comment";
+export type { Community } from "./Community";
+export type { BestCopyOptions, Image } from "./Image";
+export type { List } from "./List";
 export type { Post } from "./Post";
+export type { Report } from "./Report";
+export type { User } from "./User";
+export type {
+	WatchOptions,
+	Watcher,
+	WatcherEvents,
+	WatcherState,
+	WatcherStateStore,
+	WatcherStreamState,
+} from "./Watcher";
+export type {
+	ListItem,
+	ListItemFeed,
+	MuteData,
+	MuteList,
+	MuteListData,
+	Notification,
+	NotificationData,
+	NotificationFeed,
+	NotificationTypeMap,
+} from "./types";
+export {
+	type ApiErrorBody,
+	DiscuitApiError,
+	DiscuitForbiddenError,
+	DiscuitImageError,
+	DiscuitNetworkError,
+	DiscuitNotFoundError,
+	DiscuitRateLimitError,
+	DiscuitSchemaError,
+	DiscuitServerError,
+	DiscuitUnauthorizedError,
+	DiscuitValidationError,
+} from "./errors";
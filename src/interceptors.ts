@@ -0,0 +1,62 @@
+/**
+ * @file interceptors.ts
+ * @module interceptors
+ * @description Hooks that run around every request made by the DiscuitClient.
+ */
+
+import type { RequestOptions } from "./DiscuitClient";
+
+/**
+ * @name RequestContext
+ * @description The request as seen by interceptors.
+ */
+export type RequestContext = {
+	/** The HTTP method for the request. */
+	method: string;
+	/** The URL for the request, relative to the base URL. */
+	url: string;
+	/** Additional options for the request, including the body and headers. */
+	options: RequestOptions;
+	/** The time at which the request was started, in milliseconds since the epoch. */
+	startedAt: number;
+};
+
+/**
+ * @name Interceptor
+ * @description A set of hooks that run around every request. Every hook is optional and may be async.
+ * @example
+ * ```ts
+ * client.use({
+ * 	beforeRequest: (context) => {
+ * 		const headers = new Headers(context.options.headers);
+ * 		headers.set("X-Trace-Id", crypto.randomUUID());
+ * 		return { ...context, options: { ...context.options, headers } };
+ * 	},
+ * 	afterResponse: (context) => {
+ * 		console.log(`${context.method} ${context.url} took ${Date.now() - context.startedAt}ms`);
+ * 	},
+ * });
+ * ```
+ */
+export interface Interceptor {
+	/**
+	 * Runs before the request is sent. Returning a context replaces the request, returning nothing keeps it.
+	 * @param {RequestContext} context The request about to be sent.
+	 */
+	beforeRequest?: (
+		context: RequestContext,
+	) => RequestContext | undefined | Promise<RequestContext | undefined>;
+	/**
+	 * Runs after a successful response was parsed. Returning a value replaces the data, returning nothing keeps it.
+	 * @param {RequestContext} context The request that was sent.
+	 * @param {unknown} data The parsed response data.
+	 */
+	afterResponse?: (context: RequestContext, data: unknown) => unknown;
+	/**
+	 * Runs when the request failed, after any retries. Returning a value recovers with that value as the data,
+	 * returning nothing lets the error propagate and throwing replaces it.
+	 * @param {RequestContext} context The request that was sent.
+	 * @param {unknown} error The error the request failed with.
+	 */
+	onError?: (context: RequestContext, error: unknown) => unknown;
+}
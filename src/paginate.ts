@@ -0,0 +1,87 @@
+/**
+ * @file paginate.ts
+ * @module paginate
+ * @description Turns paginated API endpoints into async iterators.
+ */
+
+/**
+ * @name IterateOptions
+ * @description Options shared by every iterator over a paginated feed.
+ * @property {number} maxItems - The maximum number of items to yield.
+ * @property {AbortSignal} signal - A signal that stops the iteration.
+ */
+export interface IterateOptions {
+	/** The maximum number of items to yield. Unlimited if omitted. */
+	maxItems?: number;
+	/**
+	 * A signal that stops the iteration and aborts the request in flight. The iterator throws the abort reason once
+	 * it is aborted.
+	 */
+	signal?: AbortSignal;
+}
+
+/**
+ * @name Page
+ * @description A page of items and the cursor of the page after it.
+ */
+export type Page<T, Cursor> = {
+	/** The items on the page. */
+	items: T[];
+	/** The cursor of the next page, null if this is the last page. */
+	next: Cursor | null;
+};
+
+/**
+ * @name paginate
+ * @description Yields the items of every page of a feed, fetching pages as they are needed.
+ * Breaking out of the loop stops fetching.
+ * @param {Function} fetchPage Fetches the page with the given cursor, undefined for the first page.
+ * @param {IterateOptions} [options] The maximum number of items and an abort signal.
+ * @returns {AsyncGenerator<T>} The items.
+ * @example
+ * ```ts
+ * const notifications = paginate(async (next) => {
+ * 	const feed = await client.getNotifications({ next });
+ * 	return { items: feed.items, next: feed.next };
+ * });
+ * for await (const notification of notifications) console.log(notification.type);
+ * ```
+ */
+export async function* paginate<T, Cursor>(
+	fetchPage: (cursor: Cursor | undefined) => Promise<Page<T, Cursor>>,
+	options: IterateOptions = {},
+): AsyncGenerator<T, void, undefined> {
+	const maxItems = options.maxItems ?? Number.POSITIVE_INFINITY;
+	let yielded = 0;
+	let cursor: Cursor | undefined;
+
+	while (yielded < maxItems) {
+		options.signal?.throwIfAborted();
+		const page = await fetchPage(cursor);
+
+		for (const item of page.items) {
+			options.signal?.throwIfAborted();
+			yield item;
+			if (++yielded >= maxItems) return;
+		}
+
+		if (page.next === null || page.items.length === 0) return;
+		cursor = page.next;
+	}
+}
+
+/**
+ * @name nextPageNumber
+ * @description Computes the number of the next page of a page-numbered feed.
+ * @param {number} page The number of the current page, starting at 1.
+ * @param {number} limit The number of items per page.
+ * @param {number} total The total number of items.
+ * @returns {number | null} The number of the next page, null if the current page is the last.
+ */
+export function nextPageNumber(
+	page: number,
+	limit: number,
+	total: number,
+): number | null {
+	return page * limit < total ? page + 1 : null;
+}
@@ -0,0 +1,140 @@
+/**
+ * @file retry.ts
+ * @module retry
+ * @description The retry policy applied to failed API requests.
+ */
+
+import { type DiscuitApiError, DiscuitNetworkError } from "./errors";
+
+/**
+ * @name RetryOptions
+ * @description Configures how failed requests are retried.
+ * @property {number} maxAttempts - The maximum number of attempts, including the first one.
+ * @property {number} baseDelay - The delay before the first retry in milliseconds.
+ * @property {number} maxDelay - The upper bound for a single delay in milliseconds, including Retry-After.
+ * @property {boolean} jitter - Whether to randomise backoff delays.
+ * @property {number[]} statusCodes - The response statuses that are retried.
+ * @property {string[]} methods - The HTTP methods that are retried.
+ * @property {boolean} respectRetryAfter - Whether to wait for the duration of a Retry-After header.
+ * @property {Function} onRetry - Called before each retry.
+ */
+export interface RetryOptions {
+	/** The maximum number of attempts, including the first one. Defaults to 3. */
+	maxAttempts: number;
+	/** The delay before the first retry in milliseconds, doubled on every further retry. Defaults to 500. */
+	baseDelay: number;
+	/** The upper bound for a single delay in milliseconds, including one from Retry-After. Defaults to 30000. */
+	maxDelay: number;
+	/** Whether to randomise backoff delays ("full jitter"). Defaults to true. */
+	jitter: boolean;
+	/** The response statuses that are retried. Network errors are always retried. */
+	statusCodes: number[];
+	/**
+	 * The HTTP methods that are retried. POST is excluded by default since calls such as
+	 * `newPost` and `comment` are not idempotent; opt in single requests with the `retry` request option,
+	 * or add it here to opt in every POST.
+	 */
+	methods: string[];
+	/** Whether to wait for the duration given by a Retry-After header. Defaults to true. */
+	respectRetryAfter: boolean;
+	/** Called before each retry with the error, the number of the failed attempt and the delay in milliseconds. */
+	onRetry?: (error: DiscuitApiError, attempt: number, delay: number) => void;
+}
+
+/** The retry policy used for every option not given in `ApiConfig.retry`. */
+export const defaultRetryOptions: RetryOptions = {
+	maxAttempts: 3,
+	baseDelay: 500,
+	maxDelay: 30_000,
+	jitter: true,
+	statusCodes: [408, 429, 500, 502, 503, 504],
+	methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+	respectRetryAfter: true,
+};
+
+/**
+ * @name RetryOverride
+ * @description Overrides the retry policy for a single request: false to not retry it, true to retry it even if its
+ * method is not in `methods`, or options that replace those of the policy and opt the request in like true.
+ * @example
+ * ```ts
+ * client.use({
+ * 	beforeRequest: (context) =>
+ * 		context.url === "_uploads" ? { ...context, options: { ...context.options, retry: true } } : undefined,
+ * });
+ * ```
+ */
+export type RetryOverride = boolean | Partial<RetryOptions>;
+
+/**
+ * @name overrideRetryOptions
+ * @description Applies the retry override of a request to the retry policy of the client.
+ * @param {RetryOptions} options The retry policy of the client.
+ * @param {string} method The HTTP method of the request.
+ * @param {RetryOverride} [override] The retry override of the request.
+ * @returns {RetryOptions} The retry policy for the request.
+ */
+export function overrideRetryOptions(
+	options: RetryOptions,
+	method: string,
+	override?: RetryOverride,
+): RetryOptions {
+	if (override === undefined) return options;
+	if (override === false) return { ...options, maxAttempts: 1 };
+
+	// Opting in retries the request even if the client does not retry requests by default.
+	return {
+		...options,
+		maxAttempts:
+			options.maxAttempts > 1
+				? options.maxAttempts
+				: defaultRetryOptions.maxAttempts,
+		methods: [...options.methods, method],
+		...(override === true ? {} : override),
+	};
+}
+
+/**
+ * @name isRetryable
+ * @description Checks whether a failed request may be retried under a policy.
+ * @param {RetryOptions} options The retry policy.
+ * @param {string} method The HTTP method of the request.
+ * @param {DiscuitApiError} error The error the request failed with.
+ * @returns {boolean} True if the request may be retried.
+ */
+export function isRetryable(
+	options: RetryOptions,
+	method: string,
+	error: DiscuitApiError,
+): boolean {
+	if (!options.methods.some((m) => m.toUpperCase() === method.toUpperCase()))
+		return false;
+	if (error instanceof DiscuitNetworkError) return true;
+	return error.status !== null && options.statusCodes.includes(error.status);
+}
+
+/**
+ * @name retryDelay
+ * @description Computes how long to wait before the next attempt.
+ * @param {RetryOptions} options The retry policy.
+ * @param {number} attempt The number of the attempt that failed, starting at 1.
+ * @param {DiscuitApiError} error The error the attempt failed with.
+ * @returns {number} The delay in milliseconds.
+ */
+export function retryDelay(
+	options: RetryOptions,
+	attempt: number,
+	error: DiscuitApiError,
+): number {
+	const backoff = Math.min(
+		options.maxDelay,
+		options.baseDelay * 2 ** (attempt - 1),
+	);
+	const delay = options.jitter ? Math.random() * backoff : backoff;
+
+	// A Retry-After longer than `maxDelay` is cut short, like the backoff is.
+	if (options.respectRetryAfter && error.retryAfter !== null) {
+		return Math.min(options.maxDelay, Math.max(delay, error.retryAfter * 1000));
+	}
+	return delay;
+}
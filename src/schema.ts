@@ -0,0 +1,333 @@
+/**
+ * @file schema.ts
+ * @module schema
+ * @description A small schema builder that checks API responses at runtime and infers their TypeScript types.
+ */
+
+/**
+ * @name ValidationIssue
+ * @description A mismatch between a value and a schema.
+ */
+export type ValidationIssue = {
+	/** The path of the mismatching value, eg. "$.posts[0].author.id". */
+	path: string;
+	/** Whether a required field is missing, a value has the wrong type, or a field is not part of the schema. */
+	kind: "missing" | "type" | "unknown";
+	/** A description of the mismatch. */
+	message: string;
+};
+
+/**
+ * @name ValidationMode
+ * @description How responses are validated: "strict" throws on missing or mistyped fields, "warn" reports every
+ * mismatch including unknown fields to the `onValidationIssue` callback of the client, and "off" skips validation.
+ */
+export type ValidationMode = "strict" | "warn" | "off";
+
+/**
+ * @name Schema
+ * @description Describes a value, checks values against it at runtime and carries their type for `Infer`.
+ */
+export interface Schema<T> {
+	/** A description of the expected value for error messages, eg. "string | null". */
+	readonly expected: string;
+	/** Whether the field may be omitted when the schema describes a field of an object. */
+	readonly optional?: boolean;
+	/**
+	 * Checks a value, adding an issue for every mismatch. The value is not modified.
+	 * @param {unknown} value The value to check.
+	 * @param {string} path The path of the value, used in issues.
+	 * @param {ValidationIssue[]} issues The list issues are added to.
+	 */
+	check(value: unknown, path: string, issues: ValidationIssue[]): void;
+	/** The type of the values the schema describes. Only used by `Infer`, never set. */
+	readonly type?: T;
+}
+
+/**
+ * @name Infer
+ * @description The type of the values a schema describes.
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/** A schema that may be omitted in an object. */
+type OptionalSchema<T> = Schema<T | undefined> & { readonly optional: true };
+
+/** The shape of an object schema. */
+type Shape = Record<string, Schema<unknown>>;
+
+/** The type of the values an object schema describes, with optional schemas as optional properties. */
+type InferShape<S extends Shape> = {
+	[Key in keyof S as S[Key] extends OptionalSchema<unknown>
+		? never
+		: Key]: Infer<S[Key]>;
+} & {
+	[Key in keyof S as S[Key] extends OptionalSchema<unknown>
+		? Key
+		: never]?: Infer<S[Key]>;
+} extends infer Merged
+	? { [Key in keyof Merged]: Merged[Key] }
+	: never;
+
+/**
+ * @name describe
+ * @description Describes the type of a value for error messages.
+ * @param {unknown} value The value.
+ * @returns {string} The description, eg. "null", "array" or "number".
+ */
+function describe(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	return typeof value;
+}
+
+/**
+ * @name primitive
+ * @description Creates a schema for a primitive type.
+ * @param {string} name The name of the type.
+ * @param {Function} matches Checks whether a value has the type.
+ * @returns {Schema<T>} The schema.
+ */
+function primitive<T>(
+	name: string,
+	matches: (value: unknown) => value is T,
+): Schema<T> {
+	return {
+		expected: name,
+		check(value, path, issues) {
+			if (!matches(value))
+				issues.push({
+					path,
+					kind: "type",
+					message: `expected ${name}, received ${describe(value)}`,
+				});
+		},
+	};
+}
+
+/**
+ * @name string
+ * @description Creates a schema for strings.
+ * @returns {Schema<string>} The schema.
+ */
+export function string(): Schema<string> {
+	return primitive("string", (value) => typeof value === "string");
+}
+
+/**
+ * @name number
+ * @description Creates a schema for numbers.
+ * @returns {Schema<number>} The schema.
+ */
+export function number(): Schema<number> {
+	return primitive("number", (value) => typeof value === "number");
+}
+
+/**
+ * @name boolean
+ * @description Creates a schema for booleans.
+ * @returns {Schema<boolean>} The schema.
+ */
+export function boolean(): Schema<boolean> {
+	return primitive("boolean", (value) => typeof value === "boolean");
+}
+
+/**
+ * @name literal
+ * @description Creates a schema for one of a fixed set of strings.
+ * @param {string[]} values The allowed strings.
+ * @returns {Schema<T>} The schema.
+ */
+export function literal<const T extends string[]>(
+	...values: T
+): Schema<T[number]> {
+	const expected = values.map((value) => JSON.stringify(value)).join(" | ");
+	return {
+		expected,
+		check(value, path, issues) {
+			if (!values.includes(value as string))
+				issues.push({
+					path,
+					kind: "type",
+					message: `expected ${expected}, received ${typeof value === "string" ? JSON.stringify(value) : describe(value)}`,
+				});
+		},
+	};
+}
+
+/**
+ * @name nullable
+ * @description Creates a schema that also allows null.
+ * @param {Schema<T>} schema The schema of non-null values.
+ * @returns {Schema<T | null>} The schema.
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+	return {
+		get expected() {
+			return `${schema.expected} | null`;
+		},
+		check(value, path, issues) {
+			if (value !== null) schema.check(value, path, issues);
+		},
+	};
+}
+
+/**
+ * @name optional
+ * @description Creates a schema that also allows undefined, making the field optional in an object.
+ * @param {Schema<T>} schema The schema of defined values.
+ * @returns {Schema<T | undefined>} The schema.
+ */
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+	return {
+		get expected() {
+			return `${schema.expected} | undefined`;
+		},
+		optional: true,
+		check(value, path, issues) {
+			if (value !== undefined) schema.check(value, path, issues);
+		},
+	};
+}
+
+/**
+ * @name array
+ * @description Creates a schema for arrays.
+ * @param {Schema<T>} schema The schema of the items.
+ * @returns {Schema<T[]>} The schema.
+ */
+export function array<T>(schema: Schema<T>): Schema<T[]> {
+	return {
+		get expected() {
+			return `${schema.expected}[]`;
+		},
+		check(value, path, issues) {
+			if (!Array.isArray(value)) {
+				issues.push({
+					path,
+					kind: "type",
+					message: `expected array, received ${describe(value)}`,
+				});
+				return;
+			}
+			value.forEach((item, index) => {
+				schema.check(item, `${path}[${index}]`, issues);
+			});
+		},
+	};
+}
+
+/**
+ * @name object
+ * @description Creates a schema for objects with known fields. Fields not in the shape are reported as unknown.
+ * @param {Shape} shape The schemas of the fields.
+ * @returns {Schema} The schema.
+ */
+export function object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+	return {
+		expected: "object",
+		check(value, path, issues) {
+			if (typeof value !== "object" || value === null || Array.isArray(value)) {
+				issues.push({
+					path,
+					kind: "type",
+					message: `expected object, received ${describe(value)}`,
+				});
+				return;
+			}
+
+			const record = value as Record<string, unknown>;
+			for (const [key, schema] of Object.entries(shape)) {
+				if (record[key] === undefined && !schema.optional) {
+					issues.push({
+						path: `${path}.${key}`,
+						kind: "missing",
+						message: `expected ${schema.expected}, but the field is missing`,
+					});
+				} else {
+					schema.check(record[key], `${path}.${key}`, issues);
+				}
+			}
+			for (const key of Object.keys(record)) {
+				if (!Object.hasOwn(shape, key))
+					issues.push({
+						path: `${path}.${key}`,
+						kind: "unknown",
+						message: "the field is not part of the schema",
+					});
+			}
+		},
+	};
+}
+
+/**
+ * @name union
+ * @description Creates a schema for values that match any of several schemas.
+ * Mismatches are reported against the schema the value matches most closely.
+ * @param {Schema[]} schemas The schemas.
+ * @returns {Schema} The schema.
+ */
+export function union<T extends Schema<unknown>[]>(
+	...schemas: T
+): Schema<Infer<T[number]>> {
+	return {
+		get expected() {
+			return schemas.map((schema) => schema.expected).join(" | ");
+		},
+		check(value, path, issues) {
+			let closest: ValidationIssue[] | null = null;
+			let closestErrors = Number.POSITIVE_INFINITY;
+			for (const schema of schemas) {
+				const candidate: ValidationIssue[] = [];
+				schema.check(value, path, candidate);
+				const errors = candidate.filter(
+					(issue) => issue.kind !== "unknown",
+				).length;
+				if (errors < closestErrors) {
+					closest = candidate;
+					closestErrors = errors;
+				}
+				if (errors === 0) break;
+			}
+			issues.push(...(closest ?? []));
+		},
+	};
+}
+
+/**
+ * @name lazy
+ * @description Creates a schema that is resolved when it is first used, for schemas that refer to each other.
+ * @param {Function} resolve Returns the schema.
+ * @returns {Schema<T>} The schema.
+ */
+export function lazy<T>(resolve: () => Schema<T>): Schema<T> {
+	return {
+		get expected() {
+			return resolve().expected;
+		},
+		check(value, path, issues) {
+			resolve().check(value, path, issues);
+		},
+	};
+}
+
+/**
+ * @name validate
+ * @description Checks a value against a schema.
+ * @param {Schema<T>} schema The schema.
+ * @param {unknown} value The value.
+ * @returns {ValidationIssue[]} The mismatches, empty if the value matches the schema.
+ * @example
+ * ```ts
+ * const issues = validate(postDataSchema, JSON.parse(text));
+ * for (const issue of issues) console.warn(`${issue.path}: ${issue.message}`);
+ * ```
+ */
+export function validate<T>(
+	schema: Schema<T>,
+	value: unknown,
+): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	schema.check(value, "$", issues);
+	return issues;
+}
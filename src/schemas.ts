@@ -0,0 +1,758 @@
+/**
+ * @file schemas.ts
+ * @module schemas
+ * @description Runtime schemas of the data returned by the Discuit API. The data types in types.ts are inferred from them.
+ */
+
+import {
+	type Schema,
+	array,
+	boolean,
+	lazy,
+	literal,
+	nullable,
+	number,
+	object,
+	optional,
+	string,
+	union,
+} from "./schema";
+import type { CommunityData } from "./types";
+
+/** A time value in RFC 3339 format with sub-second precision. */
+const timeString = string;
+
+/** The capacity in which a user acted. */
+const userGroup = () => literal("normal", "admins", "mods");
+
+/**
+ * The schema of a copy of an image in the Discuit API.
+ */
+export const imageCopyDataSchema = object({
+	/** The name of the image copy, used to identify it. */
+	name: optional(string()),
+
+	/** The width of the image copy. */
+	width: number(),
+	/** The height of the image copy. */
+	height: number(),
+	/** The width of the box that the image fits into. */
+	boxWidth: number(),
+	/** The height of the box that the image fits into. */
+	boxHeight: number(),
+	/** How the image should fit into a box. Corresponds to the CSS `object-fit` property. */
+	objectFit: literal("cover", "contain"),
+
+	/** The format of the image copy. */
+	format: literal("jpeg", "webp", "png"),
+	/** A link to the image copy. The path is not prefixed with /api. */
+	url: string(),
+});
+
+/**
+ * The schema of an image in the Discuit API.
+ */
+export const imageDataSchema = object({
+	/** The ID of the image. */
+	id: string(),
+
+	/** The image format. */
+	format: literal("jpeg", "webp", "png"),
+	/** The image MIME Type, eg. "image/jpeg". */
+	mimetype: string(),
+
+	/** The image width. */
+	width: number(),
+	/** The image height. */
+	height: number(),
+	/** The size of the image in bytes. */
+	size: number(),
+
+	/** The average color of the image. */
+	averageColor: string(),
+
+	/** A link to the image. The path is not prefixed with /api. */
+	url: string(),
+	/** A list of copies of the image in different sizes. */
+	copies: array(imageCopyDataSchema),
+});
+
+/**
+ * The schema of a badge in the Discuit API.
+ */
+export const badgeDataSchema = object({
+	/** The ID of the badge. */
+	id: number(),
+	/** The type of badge. */
+	type: string(),
+});
+
+/**
+ * The schema of a user in the Discuit API.
+ */
+export const userDataSchema = object({
+	/** The ID of the user. */
+	id: string(),
+	/** The username of the user. Minimum 3 characters. Maximum 21 characters. */
+	username: string(),
+
+	/** If an email address was provided, the email address of the user, otherwise null. */
+	email: nullable(string()),
+	/** If the email address was confirmed, the time at which it was confirmed, otherwise null. */
+	emailConfirmedAt: nullable(timeString()),
+
+	/** The about set by the user. Maximum 10000 characters. If no about was set, this is null. */
+	aboutMe: nullable(string()),
+	/** The number of points that the user has. */
+	points: number(),
+
+	/** If the user is an admin. */
+	isAdmin: boolean(),
+	/** If a profile picture was set, the profile picture of the user, otherwise null. */
+	proPic: nullable(imageDataSchema),
+	/** The list of badges that the user has, can be empty. */
+	badges: array(badgeDataSchema),
+
+	/** The number of posts the user has made. */
+	noPosts: number(),
+	/** The number of comments the user has made. */
+	noComments: number(),
+
+	/** The time at which the account was created. */
+	createdAt: timeString(),
+	/** If the account has been deleted. */
+	deleted: boolean(),
+	/** If the account was deleted, the time at which it was deleted, otherwise null. */
+	deletedAt: optional(nullable(timeString())),
+
+	/** If the user has turned off upvote notifications. */
+	upvoteNotificationsOff: boolean(),
+	/** If the user has turned off reply notifications. */
+	replyNotificationsOff: boolean(),
+	/** The feed the user has set as their home feed. */
+	homeFeed: literal("all", "subscriptions"),
+	/** If the user wants their feed sort to be remembered. */
+	rememberFeedSort: boolean(),
+	/** If the user wants to turn off embeds for link posts. */
+	embedsOff: boolean(),
+	/** If the user wants to hide other users' profile pictures. */
+	hideUserProfilePictures: boolean(),
+
+	/** If the user was banned, the time at which they were banned, otherwise null. */
+	bannedAt: nullable(timeString()),
+	/** If the user was banned. */
+	isBanned: boolean(),
+
+	/** The number of new notifications the user has. */
+	notificationsNewCount: number(),
+
+	/** If the user is a moderator in any communities, the list of communities that the user moderates, otherwise null. */
+	moddingList: nullable(
+		array(lazy((): Schema<CommunityData> => communityDataSchema)),
+	),
+});
+
+/**
+ * The schema of a rule for a community in the Discuit API.
+ */
+export const communityRuleDataSchema = object({
+	/** The ID of the community rule. */
+	id: number(),
+
+	/** The title of the rule. */
+	rule: string(),
+	/** The description of the rule. If no description was set, this is null. */
+	description: nullable(string()),
+
+	/** The ID of the community in which this is a rule. */
+	communityId: string(),
+	/** The index of the rule. A smaller value means that the rule is closer to the top. */
+	zIndex: number(),
+
+	/** The ID of the user that created the rule. */
+	createdBy: string(),
+	/** The time at which the rule was created. */
+	createdAt: timeString(),
+});
+
+/**
+ * The schema of the report counts of a community in the Discuit API.
+ */
+export const reportDetailsDataSchema = object({
+	/** The total number of reports. */
+	noReports: number(),
+	/** The total number of posts reported. */
+	noPostReports: number(),
+	/** The total number of comments reported. */
+	noCommentReports: number(),
+});
+
+/**
+ * The schema of a community in the Discuit API.
+ */
+export const communityDataSchema = object({
+	/** The ID of the community. */
+	id: string(),
+	/** ID of the user who created the community. */
+	userId: string(),
+
+	/** The name of the community. */
+	name: string(),
+	/** If the community hosts NSFW content. */
+	nsfw: boolean(),
+	/** The description of the community, null if no description was set. Maximum 2000 characters. */
+	about: nullable(string()),
+
+	/** The number of members of the community. */
+	noMembers: number(),
+
+	/** The community icon. */
+	proPic: imageDataSchema,
+	/** The community banner image. */
+	bannerImage: imageDataSchema,
+
+	/** The time at which the community was created. */
+	createdAt: timeString(),
+	/** If the community was deleted, the time at which it was deleted, otherwise null. */
+	deletedAt: nullable(timeString()),
+
+	/** If the community is a default community, only returned if the default communities are requested. */
+	isDefault: optional(boolean()),
+
+	/** Indicates whether the authenticated user is a member. If not authenticated, this is null. */
+	userJoined: nullable(boolean()),
+	/** Indicates whether the authenticated user is a moderator. If not authenticated, this is null. */
+	userMod: nullable(boolean()),
+
+	/** The User objects of all the moderators of the community. */
+	mods: array(userDataSchema),
+	/** The list of community rules. The list is empty if there are no rules. */
+	rules: array(communityRuleDataSchema),
+
+	/** Only visible to moderators of the community, otherwise null. */
+	ReportDetails: nullable(reportDetailsDataSchema),
+});
+
+/**
+ * The schema of a comment in the Discuit API.
+ */
+export const commentDataSchema = object({
+	/** The ID of the comment. */
+	id: string(),
+	/** The ID of the post the comment belongs to. */
+	postId: string(),
+	/** The public ID of the post the comment belongs to. */
+	postPublicId: string(),
+
+	/** The ID of the community in which this comment was made. */
+	communityId: string(),
+	/** The name of the community in which this comment was made. */
+	communityName: string(),
+
+	/** The ID of the user that made the comment. */
+	userId: optional(string()),
+	/** The username of the user that made the comment. */
+	username: string(),
+	/** The ID of the Ghost user in case the author deleted their account, otherwise undefined. */
+	userGhostId: optional(string()),
+	/** The capacity in which the comment was created. */
+	userGroup: userGroup(),
+	/** Indicates whether the author account is deleted */
+	userDeleted: boolean(),
+
+	/** The comment ID of the parent comment if it exists, otherwise null if this is a top-level comment. */
+	parentId: nullable(string()),
+	/** How far deep into a comment chain this comment is. Top-level comments have a depth of 0. */
+	depth: number(),
+	/** The total number of replies the comment has, including all deeper comments. */
+	noReplies: number(),
+	/** The number of direct replies the comment has. This does not include replies deeper than 1 more than the comment itself. */
+	noRepliesDirect: number(),
+	/** The comment IDs of all ancestor comments starting from the top-most comment. */
+	ancestors: nullable(array(string())),
+
+	/** The body of the comment. */
+	body: string(),
+	/** The number of upvotes that the comment has. */
+	upvotes: number(),
+	/** The number of downvotes that the comment has. */
+	downvotes: number(),
+	/** The time at which the comment was created. */
+	createdAt: timeString(),
+	/** If the comment was edited, the time at which it was last edited, otherwise null. */
+	editedAt: nullable(timeString()),
+
+	/** If the content of the comment was deleted, otherwise undefined. */
+	contentStripped: optional(boolean()),
+	/** If the comment was deleted. */
+	deleted: boolean(),
+	/** If the comment was deleted, the time at which it was deleted, otherwise null. */
+	deletedAt: nullable(timeString()),
+	/** If the comment was deleted, in what capacity it was deleted, otherwise undefined. */
+	deletedAs: optional(userGroup()),
+
+	/** The User object of the author of the comment. */
+	author: userDataSchema,
+	/** Whether the author is muted by the authenticated user. If not authenticated, this is undefined. */
+	isAuthorMuted: optional(boolean()),
+
+	/** Indicated whether the authenticated user has voted. If not authenticated, this is null. */
+	userVoted: nullable(boolean()),
+	/** Indicates whether the authenticated user's vote is an upvote. If not authenticated, this is null. */
+	userVotedUp: nullable(boolean()),
+
+	/** The title of the post the comment belongs to. */
+	postTitle: optional(string()),
+	/** Indicates whether the post the comment belongs to is deleted. */
+	postDeleted: boolean(),
+	/** If the post is deleted, in what capacity, otherwise undefined. */
+	postDeletedAs: optional(userGroup()),
+});
+
+/**
+ * The schema of a post in the Discuit API.
+ */
+export const postDataSchema = object({
+	/** The ID of the post */
+	id: string(),
+	/** The type of post */
+	type: literal("text", "image", "link"),
+	/** The value in https://discuit.net/gaming/post/{publicId} */
+	publicId: string(),
+
+	/** ID of the author. */
+	userId: string(),
+	/** Username of the author. */
+	username: string(),
+	/** The ID of the Ghost user in case the user deleted their account */
+	userGhostId: optional(string()),
+	/** In what capacity the post was created. For "speaking officially" as a mod or an admin. */
+	userGroup: userGroup(),
+	/** Indicated whether the author's account is deleted */
+	userDeleted: boolean(),
+
+	/** If the post is pinned in the community */
+	isPinned: boolean(),
+	/** If the post is pinned site-wide */
+	isPinnedSite: boolean(),
+
+	/** The ID of the community the post is posted in */
+	communityId: string(),
+	/** The name of that community */
+	communityName: string(),
+	/** The profile picture of that community */
+	communityProPic: imageDataSchema,
+	/** The banner image of that community */
+	communityBannerImage: imageDataSchema,
+
+	/** Greater than 3 characters */
+	title: string(),
+	/** Body of the post (only valid for text posts, null otherwise) */
+	body: nullable(string()),
+	/** The posted image (only valid for image posts, null otherwise) */
+	image: nullable(imageDataSchema),
+	/** The URL of the link. */
+	link: optional(
+		object({
+			url: string(),
+			/** The hostname of the link. For a URL of "https://discuit.net", this would be "discuit.net". */
+			hostname: string(),
+			/** The image object of the OpenGraph image on the site. If no OpenGraph image was found, this is null. */
+			image: nullable(imageDataSchema),
+		}),
+	),
+
+	/** If the post was locked */
+	locked: boolean(),
+	/** Who locked the post. */
+	lockedBy: nullable(string()),
+	/** In what capacity the post was locked, undefined if the post is not locked */
+	lockedByGroup: optional(literal("owner", "admins", "mods")),
+	/** Time at which the post was locked, null if the post is not locked */
+	lockedAt: nullable(timeString()),
+
+	/** The number of upvotes the post has */
+	upvotes: number(),
+	/** The number of downvotes the post has */
+	downvotes: number(),
+	/** For ordering posts by 'hot' */
+	hotness: number(),
+
+	/** The time when the post was created */
+	createdAt: timeString(),
+	/** Last edited time. */
+	editedAt: nullable(timeString()),
+	/** Either the post created time or, if there are comments on the post, the time the most recent comment was created at. */
+	lastActivityAt: timeString(),
+
+	/** If the post was deleted */
+	deleted: boolean(),
+	/** Time at which the post was deleted, null if the post has not been deleted */
+	deletedAt: nullable(timeString()),
+	/** ID of the user who deleted the post. */
+	deletedBy: nullable(string()),
+	/** In what capacity the post was deleted, undefined if the post is not deleted */
+	deletedAs: optional(userGroup()),
+	/** If true, the body of the post and all associated links or images are deleted. */
+	deletedContent: boolean(),
+	/** In what capacity the content was deleted, undefined if the content has not been deleted. */
+	deletedContentAs: optional(userGroup()),
+
+	/** Comment count. */
+	noComments: number(),
+	/** Comments of the post. */
+	comments: optional(array(commentDataSchema)),
+	/** Pagination cursor for comments. */
+	commentsNext: nullable(string()),
+
+	/** Indicated whether the authenticated user has voted. If not authenticated, the value is null. */
+	userVoted: nullable(boolean()),
+	/** Indicates whether the authenticated user's vote is an upvote. */
+	userVotedUp: nullable(boolean()),
+
+	/** If the author of the post has been muted by the logged-in user. */
+	isAuthorMuted: boolean(),
+	/** If the community that the post is in has been muted by the logged-in user. */
+	isCommunityMuted: boolean(),
+
+	/** The Community object of the community that the post is in. */
+	community: optional(communityDataSchema),
+	/** The User object of the author of the post. */
+	author: userDataSchema,
+});
+
+/**
+ * The schema of a report in the Discuit API.
+ */
+export const reportDataSchema = object({
+	/** The ID of the report. */
+	id: number(),
+	/** The ID of the community in which the report was made. */
+	communityId: string(),
+	/** If reporting a post, the ID of the post on which the report was made, otherwise null. */
+	postId: nullable(string()),
+
+	/** The reason why the report was made. */
+	reason: string(),
+	/** A description of the report. This is null if no description is given. */
+	description: nullable(string()),
+	/** The ID of the report reason. */
+	reasonId: number(),
+	/** Whether the report is on a post or a comment. */
+	type: literal("post", "comment"),
+	/** The ID of the post or the comment that was reported. */
+	targetId: string(),
+
+	/** If an action was taken, a description of the action, otherwise null. */
+	actionTaken: nullable(string()),
+	/** If the report was dealt with, the time at which it was dealt with, otherwise null. */
+	dealtAt: nullable(timeString()),
+	/** If the report was dealt with, the ID of the user by which it was dealt, otherwise null. */
+	dealtBy: nullable(string()),
+
+	/** The time that the report was created. */
+	createdAt: timeString(),
+	/** The Comment or Post objected that the report is made against. */
+	target: union(commentDataSchema, postDataSchema),
+});
+
+/**
+ * The schema of a reason for a report in the Discuit API.
+ */
+export const reportReasonDataSchema = object({
+	id: number(),
+	title: string(),
+	description: nullable(string()),
+});
+
+/**
+ * The schema of a list in the Discuit API.
+ */
+export const listDataSchema = object({
+	/** The ID of the list. */
+	id: number(),
+	/** The ID of the list owner. */
+	userId: string(),
+	/** The username of the list owner. */
+	username: string(),
+	/** The name of the list. */
+	name: string(),
+	/** The display name of the list. */
+	displayName: string(),
+	/** A description of the list. If no description is set, this is null. */
+	description: nullable(string()),
+	/** Indicates whether the list is a public or a private list. */
+	public: boolean(),
+	/** Number of items in the list. */
+	numItems: number(),
+	/** The current sorting of the list. */
+	sort: literal("addedDsc", "addedAsc", "createdDsc", "createdAsc"),
+	/** The time at which the list was created. */
+	createdAt: timeString(),
+	/** The last time an item was added to the list (for brand-new lists this value is the same as createdAt). */
+	lastUpdatedAt: timeString(),
+});
+
+/**
+ * The schema of an item in a list in the Discuit API.
+ */
+export const listItemDataSchema = object({
+	/** The ID of the list item. */
+	id: number(),
+	/** The ID of the list in which this is an item. */
+	listId: number(),
+	/** The type of the list item, post or comment. */
+	targetType: literal("post", "comment"),
+	/** The ID of the original post or comment. */
+	targetId: string(),
+	/** The time at which this list item was created (when the post/comment was added to the list). */
+	createdAt: timeString(),
+	/** The original post or comment object. */
+	targetItem: union(postDataSchema, commentDataSchema),
+});
+
+/**
+ * The schema of a mute action in the Discuit API.
+ */
+export const muteDataSchema = object({
+	/** The ID of the mute. */
+	id: string(),
+	/** Whether a user or community is being muted. */
+	type: literal("user", "community"),
+	/** If a user is being muted, the ID of the user, otherwise undefined. */
+	mutedUserId: optional(string()),
+	/** If a community is being muted, the ID of the community, otherwise undefined. */
+	mutedCommunityId: optional(string()),
+
+	/** The time at which the mute was created. */
+	createdAt: timeString(),
+
+	/** If a user is being muted, the User object of the user, otherwise undefined. */
+	mutedUser: optional(userDataSchema),
+	/** If a community is being muted, the Community object of the community, otherwise undefined. */
+	mutedCommunity: optional(communityDataSchema),
+});
+
+/**
+ * The schema of the users and communities muted by the authenticated user in the Discuit API.
+ */
+export const muteListSchema = object({
+	/** The mutes of users. Omitted or null if there are none. */
+	userMutes: optional(nullable(array(muteDataSchema))),
+	/** The mutes of communities. Omitted or null if there are none. */
+	communityMutes: optional(nullable(array(muteDataSchema))),
+});
+
+/**
+ * The schema of the content of a notification for new votes in the Discuit API.
+ */
+export const newVotesNotifDataSchema = object({
+	/** The number of votes the post or comment received. */
+	noVotes: number(),
+	/** The ID of the post or comment that was voted on. */
+	targetId: string(),
+	/** The type of the target. */
+	targetType: literal("post", "comment"),
+	/** The target item, either of type `Comment` if `targetType` is "comment" or `Post` otherwise. */
+	post: union(postDataSchema, commentDataSchema),
+	/** Only present if the `targetType` is "comment". */
+	comment: optional(commentDataSchema),
+});
+
+/**
+ * The schema of the content of a notification for a deleted post in the Discuit API.
+ */
+export const deletedPostNotifDataSchema = object({
+	/** The user group that deleted the post. */
+	deletedAs: literal("mods", "admins"),
+	/** The post that was deleted. */
+	post: postDataSchema,
+	/** The ID of the post that was deleted. */
+	targetId: string(),
+	/** The type of the target. */
+	targetType: literal("post", "comment"),
+});
+
+/**
+ * The schema of the content of a notification for a new comment in the Discuit API.
+ */
+export const newCommentNotifDataSchema = object({
+	/** The username of the comment author. */
+	commentAuthor: string(),
+	/** The ID of the comment. */
+	commentId: string(),
+	/** The time at which the first comment was created. */
+	firstCreatedAt: timeString(),
+	/** The number of new comments on the post. */
+	noComments: number(),
+	/** The parent post. */
+	post: postDataSchema,
+	/** The ID of the post. */
+	postId: string(),
+});
+
+/**
+ * The schema of the content of a notification for a comment reply in the Discuit API.
+ */
+export const commentReplyNotifDataSchema = object({
+	/** The username of the comment author. */
+	commentAuthor: string(),
+	/** The ID of the comment. */
+	commentId: string(),
+	/** The time at which the first comment was created. */
+	firstCreatedAt: timeString(),
+	/** The number of comments on the post. */
+	noComments: number(),
+	/** The ID of the parent comment. */
+	parentCommentId: string(),
+	/** The parent post. */
+	post: postDataSchema,
+	/** The ID of the post. */
+	postId: string(),
+});
+
+/**
+ * The schema of the content of a notification for a new badge in the Discuit API.
+ */
+export const newBadgeNotifDataSchema = object({
+	/** The type of the badge. */
+	badgeType: string(),
+	/** The user who received the badge. */
+	user: userDataSchema,
+});
+
+/**
+ * The schema of the content of a notification for adding a moderator in the Discuit API.
+ */
+export const modAddNotifDataSchema = object({
+	/** The username of the user who added the mod. */
+	addedBy: string(),
+	/** The community where the user was added as a mod. */
+	community: communityDataSchema,
+	/** The name of the community. */
+	communityName: string(),
+});
+
+/**
+ * @name notificationOf
+ * @description Creates the schema of a notification of a given type with a given content.
+ * @param {string} type The type of the notification.
+ * @param {Schema<Notif>} notif The schema of the content of the notification.
+ * @returns {Schema} The schema.
+ */
+function notificationOf<Type extends string, Notif>(
+	type: Type,
+	notif: Schema<Notif>,
+) {
+	return object({
+		/** The ID of the notification. */
+		id: number(),
+
+		/** The type of notification. */
+		type: literal(type),
+		/** The content of the notification. The structure of this object depends on the type of notification. */
+		notif,
+
+		/** Whether the notification was seen by the authenticated user. */
+		seen: boolean(),
+		/** If the notification was seen, the time at which it was seen, otherwise null. */
+		seenAt: nullable(timeString()),
+		/** The time at which the notification was created. */
+		createdAt: timeString(),
+	});
+}
+
+/**
+ * The schema of a notification in the Discuit API.
+ */
+export const notificationDataSchema = union(
+	notificationOf("new_comment", newCommentNotifDataSchema),
+	notificationOf("comment_reply", commentReplyNotifDataSchema),
+	notificationOf("new_votes", newVotesNotifDataSchema),
+	notificationOf("deleted_post", deletedPostNotifDataSchema),
+	notificationOf("new_badge", newBadgeNotifDataSchema),
+	notificationOf("mod_add", modAddNotifDataSchema),
+);
+
+/**
+ * The schema of the response to the initial request to the server.
+ */
+export const initialResponseDataSchema = object({
+	reportReasons: array(reportReasonDataSchema),
+	user: nullable(userDataSchema),
+	communities: array(communityDataSchema),
+	noUsers: number(),
+	bannedFrom: nullable(array(string())),
+	vapidPublicKey: string(),
+	mutes: muteListSchema,
+});
+
+/**
+ * The schema of a page of a feed of posts paginated by next page token.
+ */
+export const normalFeedResponseSchema = object({
+	posts: array(postDataSchema),
+	next: nullable(string()),
+});
+
+/**
+ * The schema of a page of a feed of posts paginated by page number, as returned to moderators.
+ */
+export const moderatorFeedResponseSchema = object({
+	noPosts: number(),
+	limit: number(),
+	page: number(),
+	posts: array(postDataSchema),
+});
+
+/**
+ * The schema of a page of comments.
+ */
+export const commentFeedResponseSchema = object({
+	comments: nullable(array(commentDataSchema)),
+	next: nullable(string()),
+});
+
+/**
+ * The schema of an item on the profile of a user.
+ */
+export const userFeedItemDataSchema = object({
+	type: literal("post", "comment"),
+	item: union(postDataSchema, commentDataSchema),
+});
+
+/**
+ * The schema of a page of the items on the profile of a user.
+ */
+export const userFeedResponseSchema = object({
+	items: array(userFeedItemDataSchema),
+	next: nullable(string()),
+});
+
+/**
+ * The schema of a page of the reports of a community.
+ */
+export const reportFeedResponseSchema = object({
+	details: nullable(reportDetailsDataSchema),
+	reports: array(reportDataSchema),
+	limit: number(),
+	page: number(),
+});
+
+/**
+ * The schema of a page of the items in a list.
+ */
+export const listItemFeedResponseSchema = object({
+	items: nullable(array(listItemDataSchema)),
+	next: nullable(string()),
+});
+
+/**
+ * The schema of a page of notifications.
+ */
+export const notificationFeedResponseSchema = object({
+	count: number(),
+	newCount: number(),
+	items: nullable(array(notificationDataSchema)),
+	next: nullable(string()),
+});
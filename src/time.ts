@@ -0,0 +1,94 @@
+/**
+ * @file time.ts
+ * @module time
+ * @description Helpers for parsing the time values of the Discuit API and formatting them relative to now.
+ */
+
+import type { TimeString } from "./types";
+
+/**
+ * @name RelativeTimeOptions
+ * @description Options for formatting a time relative to now.
+ */
+export interface RelativeTimeOptions {
+	/** The time to format relative to. Defaults to the current time. */
+	now?: Date | number;
+	/** The locale to format in. Defaults to the locale of the runtime. */
+	locale?: string | string[];
+	/** The length of the unit, eg. "3 hours ago" for "long" or "3 hr. ago" for "short". Defaults to "long". */
+	style?: Intl.RelativeTimeFormatStyle;
+	/** Whether to always use numbers, eg. "1 day ago" for "always" or "yesterday" for "auto". Defaults to "auto". */
+	numeric?: Intl.RelativeTimeFormatNumeric;
+}
+
+/** The units relative times are formatted in and their length in seconds, longest first. */
+const units: [Intl.RelativeTimeFormatUnit, number][] = [
+	["year", 365 * 24 * 60 * 60],
+	["month", 30 * 24 * 60 * 60],
+	["week", 7 * 24 * 60 * 60],
+	["day", 24 * 60 * 60],
+	["hour", 60 * 60],
+	["minute", 60],
+	["second", 1],
+];
+
+/**
+ * @name parseTime
+ * @description Parses a time value of the API. The value itself is kept by the entities, as a Date only has
+ * millisecond precision.
+ * @param {TimeString} value The time value in RFC 3339 format.
+ * @returns {Date} The time.
+ */
+export function parseTime(value: TimeString): Date;
+/**
+ * @name parseTime
+ * @description Parses a time value of the API that may be absent.
+ * @param {TimeString | null | undefined} value The time value in RFC 3339 format.
+ * @returns {Date | null} The time, null if the value is absent.
+ */
+export function parseTime(value: TimeString | null | undefined): Date | null;
+export function parseTime(value: TimeString | null | undefined): Date | null {
+	return value ? new Date(value) : null;
+}
+
+/**
+ * @name timeSince
+ * @description Computes how much time passed since a time.
+ * @param {TimeString} value The time value in RFC 3339 format.
+ * @param {Date | number} [now] The time to measure until. Defaults to the current time.
+ * @returns {number} The number of milliseconds passed.
+ */
+export function timeSince(
+	value: TimeString,
+	now: Date | number = Date.now(),
+): number {
+	return Number(now) - parseTime(value).getTime();
+}
+
+/**
+ * @name formatRelativeTime
+ * @description Formats a time relative to now in the largest unit that fits, eg. "3 hours ago" or "in 2 days".
+ * @param {TimeString | Date} value The time, either a time value in RFC 3339 format or a Date.
+ * @param {RelativeTimeOptions} [options] The time to format relative to, the locale and the style.
+ * @returns {string} The formatted time.
+ */
+export function formatRelativeTime(
+	value: TimeString | Date,
+	options: RelativeTimeOptions = {},
+): string {
+	const time = typeof value === "string" ? parseTime(value) : value;
+	const seconds = (time.getTime() - Number(options.now ?? Date.now())) / 1000;
+	const format = new Intl.RelativeTimeFormat(options.locale, {
+		style: options.style ?? "long",
+		numeric: options.numeric ?? "auto",
+	});
+
+	// The value is rounded, so a unit is used once it rounds to at least one, eg. 59.5 minutes are "1 hour".
+	for (const [unit, length] of units) {
+		const amount = Math.round(Math.abs(seconds) / length);
+		if (amount >= 1) {
+			return format.format(Math.sign(seconds) * amount, unit);
+		}
+	}
+	return format.format(0, "second");
+}
@@ -0,0 +1,169 @@
+/**
+ * @file upload.ts
+ * @module upload
+ * @description Reads and validates images from files, blobs, byte arrays and streams before they are uploaded.
+ */
+
+import { DiscuitImageError } from "./errors";
+import type { ImageData } from "./types";
+
+/**
+ * @name ImageSource
+ * @description An image to upload: a file path, a Blob or File, the bytes of the image, or a stream of them.
+ * File paths require a runtime with `node:fs`, such as Node, Bun or Deno.
+ */
+export type ImageSource =
+	| string
+	| Blob
+	| Uint8Array
+	| ReadableStream<Uint8Array>
+	| AsyncIterable<Uint8Array>;
+
+/**
+ * @name UploadImageOptions
+ * @description Options for reading an image before it is uploaded.
+ */
+export interface UploadImageOptions {
+	/** The maximum size of the image in bytes. Defaults to the `maxImageSize` option of the client. */
+	maxSize?: number;
+	/** The file name sent with the image. Defaults to the name of the file or "image". */
+	filename?: string;
+}
+
+/** The default maximum size of an image, the limit of the Discuit server. */
+export const defaultMaxImageSize = 25 * 1024 * 1024;
+
+/**
+ * @name detectImageType
+ * @description Detects the MIME type of an image from its first bytes.
+ * @param {Uint8Array} bytes At least the first 12 bytes of the image.
+ * @returns {string | null} The MIME type, null if the image is not a JPEG, WebP or PNG image.
+ */
+export function detectImageType(bytes: Uint8Array): string | null {
+	const ascii = (start: number, end: number) =>
+		String.fromCharCode(...bytes.subarray(start, end));
+
+	if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff)
+		return "image/jpeg";
+	if (bytes[0] === 0x89 && ascii(1, 4) === "PNG") return "image/png";
+	if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+	return null;
+}
+
+/**
+ * @name isImageData
+ * @description Checks whether a value is an image that was already uploaded rather than one to upload.
+ * @param {ImageSource | ImageData} value The value to check.
+ * @returns {boolean} Whether the value is an uploaded image.
+ */
+export function isImageData(
+	value: ImageSource | ImageData,
+): value is ImageData {
+	return (
+		typeof value === "object" &&
+		"id" in value &&
+		"copies" in value &&
+		typeof value.id === "string"
+	);
+}
+
+/**
+ * @name readChunks
+ * @description Reads a stream into memory, failing as soon as it exceeds the maximum size.
+ * @param {ReadableStream | AsyncIterable} stream The stream.
+ * @param {number} maxSize The maximum size in bytes.
+ * @returns {Promise<Uint8Array[]>} A promise that resolves with the chunks of the stream.
+ * @async
+ */
+async function readChunks(
+	stream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+	maxSize: number,
+): Promise<Uint8Array[]> {
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	const add = (chunk: Uint8Array) => {
+		size += chunk.byteLength;
+		if (size > maxSize)
+			throw new DiscuitImageError(
+				`Image exceeds the maximum size of ${maxSize} bytes.`,
+				null,
+				size,
+			);
+		chunks.push(chunk);
+	};
+
+	if (stream instanceof ReadableStream) {
+		const reader = stream.getReader();
+		try {
+			for (;;) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				add(value);
+			}
+		} catch (error) {
+			await reader.cancel(error).catch(() => {});
+			throw error;
+		} finally {
+			reader.releaseLock();
+		}
+	} else {
+		for await (const chunk of stream) add(chunk);
+	}
+	return chunks;
+}
+
+/**
+ * @name readImage
+ * @description Reads an image into a Blob of the detected MIME type and checks its format and size.
+ * @param {ImageSource} source The image.
+ * @param {UploadImageOptions} [options] The maximum size and file name.
+ * @returns {Promise<File>} A promise that resolves with the image.
+ * @throws {DiscuitImageError} If the image is not a JPEG, WebP or PNG image or is too large.
+ * @async
+ */
+export async function readImage(
+	source: ImageSource,
+	options: UploadImageOptions = {},
+): Promise<File> {
+	const maxSize = options.maxSize ?? defaultMaxImageSize;
+	let filename = options.filename;
+	let blob: Blob;
+
+	if (typeof source === "string") {
+		const { readFile, stat } = await import("node:fs/promises");
+		const { size } = await stat(source);
+		if (size > maxSize)
+			throw new DiscuitImageError(
+				`Image exceeds the maximum size of ${maxSize} bytes.`,
+				null,
+				size,
+			);
+		blob = new Blob([await readFile(source)]);
+		filename ??= source.split(/[\\/]/).pop();
+	} else if (source instanceof Blob) {
+		blob = source;
+		if (source instanceof File) filename ??= source.name;
+	} else if (source instanceof Uint8Array) {
+		blob = new Blob([source]);
+	} else {
+		blob = new Blob(await readChunks(source, maxSize));
+	}
+
+	const mimeType = detectImageType(
+		new Uint8Array(await blob.slice(0, 12).arrayBuffer()),
+	);
+	if (!mimeType)
+		throw new DiscuitImageError(
+			"Image must be a JPEG, WebP or PNG image.",
+			null,
+			blob.size,
+		);
+	if (blob.size > maxSize)
+		throw new DiscuitImageError(
+			`Image exceeds the maximum size of ${maxSize} bytes.`,
+			mimeType,
+			blob.size,
+		);
+
+	return new File([blob], filename || "image", { type: mimeType });
+}